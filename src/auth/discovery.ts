@@ -4,9 +4,10 @@ import {
   CODE_ASSIST_ENDPOINT,
   DEFAULT_ANTIGRAVITY_PROJECT,
 } from "../constants.ts";
+import { proxyOption } from "../proxy/egress.ts";
 import { fromBase64url } from "../utils/encoding.ts";
 import { logger } from "../utils/logger.ts";
-import type { Credentials } from "./store.ts";
+import type { Credentials, ProviderName } from "./store.ts";
 
 type Raw = Record<string, unknown>;
 
@@ -18,20 +19,25 @@ export async function discoverAnthropic(raw: Raw): Promise<Partial<Credentials>>
   };
 }
 
-export async function discoverCodex(raw: Raw): Promise<Partial<Credentials>> {
+export async function discoverCodex(raw: Raw, account: number): Promise<Partial<Credentials>> {
   const accessToken = raw.access_token as string;
   const accountId = accountIdFromJWT(accessToken);
-  const email = await fetchEmail("https://api.openai.com/v1/me", accessToken);
+  const email = await fetchEmail("https://api.openai.com/v1/me", accessToken, "codex", account);
   return {
     ...(accountId ? { accountId } : {}),
     ...(email ? { email } : {}),
   };
 }
 
-export async function discoverGoogle(raw: Raw): Promise<Partial<Credentials>> {
+export async function discoverGoogle(raw: Raw, account: number): Promise<Partial<Credentials>> {
   const accessToken = raw.access_token as string;
-  const email = await fetchEmail("https://www.googleapis.com/oauth2/v1/userinfo?alt=json", accessToken);
-  const projectId = await findProject(accessToken);
+  const email = await fetchEmail(
+    "https://www.googleapis.com/oauth2/v1/userinfo?alt=json",
+    accessToken,
+    "google",
+    account,
+  );
+  const projectId = await findProject(accessToken, account);
   return { ...(email ? { email } : {}), ...(projectId ? { projectId } : {}) };
 }
 
@@ -47,9 +53,17 @@ function accountIdFromJWT(token: string): string | null {
   }
 }
 
-async function fetchEmail(url: string, accessToken: string): Promise<string | undefined> {
+async function fetchEmail(
+  url: string,
+  accessToken: string,
+  provider: ProviderName,
+  account: number,
+): Promise<string | undefined> {
   try {
-    const res = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+    const res = await fetch(url, {
+      ...proxyOption(provider, account),
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
     if (!res.ok) return undefined;
     return ((await res.json()) as { email?: string }).email;
   } catch {
@@ -72,10 +86,11 @@ const CCA_BODY = JSON.stringify({
   metadata: { ideType: "IDE_UNSPECIFIED", platform: "PLATFORM_UNSPECIFIED", pluginType: "GEMINI" },
 });
 
-async function findProject(accessToken: string): Promise<string | undefined> {
+async function findProject(accessToken: string, account: number): Promise<string | undefined> {
   for (const endpoint of [CODE_ASSIST_ENDPOINT, ANTIGRAVITY_DAILY_ENDPOINT, AUTOPUSH_ENDPOINT]) {
     try {
       const res = await fetch(`${endpoint}/v1internal:loadCodeAssist`, {
+        ...proxyOption("google", account),
         method: "POST",
         headers: { ...CCA_HEADERS, Authorization: `Bearer ${accessToken}` },
         body: CCA_BODY,
@@ -1,5 +1,7 @@
 import { TOKEN_EXPIRY_BUFFER_MS } from "../constants.ts";
+import { proxyOption } from "../proxy/egress.ts";
 import * as browser from "../utils/browser.ts";
+import * as events from "../utils/events.ts";
 import { logger } from "../utils/logger.ts";
 import { waitForCallback } from "./callback-server.ts";
 import { generatePKCE, generateState } from "./pkce.ts";
@@ -19,7 +21,8 @@ export interface OAuthConfig {
   authorizeExtra?: Record<string, string>;
   expiryBuffer?: boolean;
   sendStateInExchange?: boolean;
-  extractIdentity?: (raw: Record<string, unknown>) => Promise<Partial<Credentials>>;
+  /** `account` selects the outbound proxy for any lookups it makes. */
+  extractIdentity?: (raw: Record<string, unknown>, account: number) => Promise<Partial<Credentials>>;
 }
 
 export async function token(config: OAuthConfig, account = 0): Promise<string | null> {
@@ -101,12 +104,15 @@ export async function login(config: OAuthConfig): Promise<Credentials> {
   };
   if (config.sendStateInExchange) exchangeParams.state = callback.state;
 
-  const raw = await exchange(config, exchangeParams);
+  // Which stored account this is only shows once identity is known, so the whole login — token
+  // exchange and identity lookups — leaves through the proxy of the account it would be added as.
+  const egressAccount = store.nextAccount(config.providerName);
+  const raw = await exchange(config, exchangeParams, egressAccount);
   let credentials = parseTokenFields(raw, config);
 
   if (config.extractIdentity) {
     try {
-      credentials = { ...credentials, ...(await config.extractIdentity(raw)) };
+      credentials = { ...credentials, ...(await config.extractIdentity(raw, egressAccount)) };
     } catch (err) {
       logger.error(`${config.providerName} identity extraction failed`, { error: String(err) });
     }
@@ -139,7 +145,14 @@ function serialize(config: OAuthConfig): Promise<Credentials> {
 }
 
 async function refresh(config: OAuthConfig, refreshToken: string, account = 0): Promise<Credentials> {
-  const raw = await exchange(config, { grant_type: "refresh_token", refresh_token: refreshToken });
+  const provider = config.providerName;
+  let raw: Record<string, unknown>;
+  try {
+    raw = await exchange(config, { grant_type: "refresh_token", refresh_token: refreshToken }, account);
+  } catch (err) {
+    events.emit("token_refresh", { provider, pool: provider, account, ok: false, error: String(err) });
+    throw err;
+  }
 
   const credentials: Credentials = {
     ...store.get(config.providerName, account),
@@ -148,6 +161,7 @@ async function refresh(config: OAuthConfig, refreshToken: string, account = 0):
   };
 
   store.save(config.providerName, credentials, account);
+  events.emit("token_refresh", { provider, pool: provider, account, ok: true, expiresAt: credentials.expiresAt });
   return credentials;
 }
 
@@ -174,12 +188,18 @@ async function refreshWithRetry(
   }
 }
 
-async function exchange(config: OAuthConfig, params: Record<string, string>): Promise<Record<string, unknown>> {
+/** `account` selects that account's outbound proxy. */
+async function exchange(
+  config: OAuthConfig,
+  params: Record<string, string>,
+  account?: number,
+): Promise<Record<string, unknown>> {
   const all: Record<string, string> = { client_id: config.clientId, ...params };
   if (config.clientSecret) all.client_secret = config.clientSecret;
 
   const isJson = config.bodyFormat === "json";
   const res = await fetch(config.tokenUrl, {
+    ...proxyOption(config.providerName, account),
     method: "POST",
     headers: { "Content-Type": isJson ? "application/json" : "application/x-www-form-urlencoded" },
     body: isJson ? JSON.stringify(all) : new URLSearchParams(all).toString(),
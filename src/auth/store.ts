@@ -52,8 +52,7 @@ const _dbPath = DEFAULT_DB_PATH;
 function init() {
   if (_stmts) return _stmts;
 
-  const dir = _dbPath.replace(/\/[^/]+$/, "");
-  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  mkdirSync(dataDir(), { recursive: true, mode: 0o700 });
   _db = new Database(_dbPath, { strict: true });
   _db.exec("PRAGMA journal_mode=WAL");
   _db.exec("PRAGMA busy_timeout=5000");
@@ -84,6 +83,17 @@ function init() {
   return _stmts;
 }
 
+/** Directory holding credentials.db — other private state (e.g. generated TLS material) lives here too. */
+export function dataDir(): string {
+  return _dbPath.replace(/\/[^/]+$/, "");
+}
+
+/** Shared connection for other tables kept in credentials.db (e.g. access tokens). */
+export function database(): Database {
+  init();
+  return _db!;
+}
+
 export function get(provider: ProviderName, account = 0): Credentials | undefined {
   const row = init().get.get(provider, account);
   if (!row) return undefined;
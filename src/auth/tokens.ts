@@ -0,0 +1,103 @@
+/** Access tokens for clients of the proxy, kept in credentials.db next to the OAuth credentials.
+ *  Only a SHA-256 hash is stored; the token itself is shown once, when created. */
+
+import type { Statement } from "bun:sqlite";
+import { createHash, randomBytes } from "node:crypto";
+import { toBase64url } from "../utils/encoding.ts";
+import * as store from "./store.ts";
+
+/** Lets the server tell a connector token from an Amp API key (sgamp_...) in Authorization. */
+export const TOKEN_PREFIX = "ampcc_";
+/** last_used_at is informational — write it at most this often per token. */
+const TOUCH_INTERVAL_MS = 60_000;
+
+export interface AccessToken {
+  id: string;
+  name: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+interface TokenRow {
+  id: string;
+  name: string;
+  created_at: number;
+  last_used_at: number | null;
+}
+
+interface Statements {
+  insert: Statement<void, [string, string, string, number]>;
+  list: Statement<TokenRow, []>;
+  byHash: Statement<TokenRow, [string]>;
+  touch: Statement<void, [number, string]>;
+  remove: Statement<void, [string, string]>;
+  count: Statement<{ cnt: number }, []>;
+}
+
+let _stmts: Statements | null = null;
+const touched = new Map<string, number>();
+
+function init(): Statements {
+  if (_stmts) return _stmts;
+  const db = store.database();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS access_tokens (
+      id           TEXT PRIMARY KEY,
+      name         TEXT NOT NULL,
+      hash         TEXT NOT NULL UNIQUE,
+      created_at   INTEGER NOT NULL,
+      last_used_at INTEGER
+    )
+  `);
+  _stmts = {
+    insert: db.prepare("INSERT INTO access_tokens (id, name, hash, created_at) VALUES (?, ?, ?, ?)"),
+    list: db.prepare("SELECT id, name, created_at, last_used_at FROM access_tokens ORDER BY created_at"),
+    byHash: db.prepare("SELECT id, name, created_at, last_used_at FROM access_tokens WHERE hash = ?"),
+    touch: db.prepare("UPDATE access_tokens SET last_used_at = ? WHERE id = ?"),
+    remove: db.prepare("DELETE FROM access_tokens WHERE id = ? OR name = ?"),
+    count: db.prepare("SELECT COUNT(*) as cnt FROM access_tokens"),
+  };
+  return _stmts;
+}
+
+/** Create a token. The returned plaintext is not recoverable later. */
+export function create(name: string): { token: string; info: AccessToken } {
+  const id = randomBytes(4).toString("hex");
+  const token = `${TOKEN_PREFIX}${toBase64url(randomBytes(32))}`;
+  const createdAt = Date.now();
+  init().insert.run(id, name, hash(token), createdAt);
+  return { token, info: { id, name, createdAt, lastUsedAt: null } };
+}
+
+export function list(): AccessToken[] {
+  return init().list.all().map(fromRow);
+}
+
+/** Revoke by id or name. Returns whether anything was removed. */
+export function revoke(idOrName: string): boolean {
+  return init().remove.run(idOrName, idOrName).changes > 0;
+}
+
+export function count(): number {
+  return init().count.get()?.cnt ?? 0;
+}
+
+/** The token's record if it is valid. */
+export function verify(token: string): AccessToken | null {
+  const row = init().byHash.get(hash(token));
+  if (!row) return null;
+  const now = Date.now();
+  if (now - (touched.get(row.id) ?? 0) > TOUCH_INTERVAL_MS) {
+    touched.set(row.id, now);
+    init().touch.run(now, row.id);
+  }
+  return fromRow(row);
+}
+
+function hash(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function fromRow(row: TokenRow): AccessToken {
+  return { id: row.id, name: row.name, createdAt: row.created_at, lastUsedAt: row.last_used_at };
+}
@@ -0,0 +1,25 @@
+/** HTTP client for CLI commands that talk to a running proxy: picks the Unix socket or the
+ *  TCP listener from config, and trusts the generated local CA when TLS is on. */
+
+import type { ProxyConfig } from "../config/config.ts";
+import { listensOnTcp, socketPath } from "../server/socket.ts";
+import { scheme, tlsFiles } from "../server/tls.ts";
+
+/** Bind-all addresses are not something to connect to — use loopback instead. */
+const WILDCARD_HOSTS = new Set(["0.0.0.0", "::", "[::]"]);
+
+/** Where CLI commands reach the proxy, for messages. */
+export function target(config: ProxyConfig): string {
+  const unix = socketPath(config);
+  if (unix && !listensOnTcp(config)) return unix;
+  const host = WILDCARD_HOSTS.has(config.hostname) ? "localhost" : config.hostname;
+  return `${scheme(config)}://${host.includes(":") ? `[${host}]` : host}:${config.port}`;
+}
+
+export function connectorFetch(config: ProxyConfig, path: string, init: RequestInit = {}): Promise<Response> {
+  const unix = socketPath(config);
+  if (unix && !listensOnTcp(config)) return fetch(`http://localhost${path}`, { ...init, unix });
+
+  const ca = tlsFiles(config)?.ca;
+  return fetch(`${target(config)}${path}`, { ...init, ...(ca && { tls: { ca: Bun.file(ca) } }) });
+}
@@ -0,0 +1,88 @@
+/** `config check` — validate config and print the effective values with their source. */
+
+import { ConfigError, formatIssue, resolveConfig } from "../config/config.ts";
+import { envSourceName } from "../config/env.ts";
+import { getPath, leaves } from "../config/schema.ts";
+import { setLogLevel } from "../utils/logger.ts";
+import { line, s } from "./ansi.ts";
+
+export async function configCheck(): Promise<void> {
+  setLogLevel("warn");
+
+  line();
+  line(`${s.bold}ampcode-connector config check${s.reset}`);
+  line();
+
+  let resolved: Awaited<ReturnType<typeof resolveConfig>>;
+  try {
+    resolved = await resolveConfig();
+  } catch (err) {
+    if (!(err instanceof ConfigError)) {
+      line(`  ${s.red}✗${s.reset} ${err instanceof Error ? err.message : String(err)}`);
+      line();
+      process.exitCode = 1;
+      return;
+    }
+    line(`  file     ${s.cyan}${err.path}${s.reset}`);
+    line();
+    for (const issue of err.issues) line(`  ${s.red}✗${s.reset} ${formatIssue(err.path, issue)}`);
+    line();
+    line(`${s.red}${err.issues.length} problem${err.issues.length > 1 ? "s" : ""} found${s.reset}`);
+    line();
+    process.exitCode = 1;
+    return;
+  }
+
+  const { config, files, sources, secretRefs } = resolved;
+  if (files.length === 0) line(`  file     ${s.dim}-- none, using defaults${s.reset}`);
+  for (const file of files) line(`  file     ${s.cyan}${file}${s.reset}`);
+  if (config.profile) line(`  profile  ${s.cyan}${config.profile}${s.reset}`);
+  line();
+
+  const rows = leaves().map(([key, field]) => {
+    const value = getPath(config, key);
+    const secret = field.type === "string" && field.secret === true;
+    const source = sources.get(key) ?? "unset";
+    const ref = secretRefs.get(key);
+    const shown = ref ? `${ref} → ${display(value, secret)}` : display(value, secret);
+    return { key, value: shown, source: source === "env" ? `env ${envSourceName(key)}` : source };
+  });
+  const keyWidth = Math.max(...rows.map((r) => r.key.length)) + 2;
+  const valueWidth = Math.max(...rows.map((r) => r.value.length)) + 2;
+
+  for (const row of rows) {
+    const source = row.source === "default" || row.source === "unset" ? `${s.dim}${row.source}${s.reset}` : row.source;
+    line(`  ${row.key.padEnd(keyWidth)}${row.value.padEnd(valueWidth)}${source}`);
+  }
+
+  line();
+  line(`${s.green}ok${s.reset} config is valid`);
+  line();
+}
+
+function display(value: unknown, secret: boolean): string {
+  if (value === undefined) return "--";
+  if (secret) return mask(String(value));
+  if (typeof value === "string") return maskUserinfo(value);
+  // Records (proxy.accounts) map keys to proxy URLs.
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const entries = Object.entries(value).map(([k, v]) => [k, typeof v === "string" ? maskUserinfo(v) : v]);
+    return JSON.stringify(Object.fromEntries(entries));
+  }
+  return JSON.stringify(value);
+}
+
+/** Proxy URLs may carry credentials — keep the user name, hide the password. */
+function maskUserinfo(value: string): string {
+  if (!URL.canParse(value)) return value;
+  const url = new URL(value);
+  if (!url.password) return value;
+  url.password = "****";
+  return url.toString();
+}
+
+/** Keep a short prefix so the user can tell which key is in use, hide the rest. */
+function mask(secret: string): string {
+  if (secret.length <= 8) return "****";
+  return `${secret.slice(0, 6)}****`;
+}
@@ -0,0 +1,186 @@
+/** `ctl` — inspect and adjust a running proxy through its admin API (server/admin.ts). */
+
+import { loadConfig } from "../config/config.ts";
+import { ADMIN_PREFIX, adminKey } from "../server/admin.ts";
+import { setLogLevel } from "../utils/logger.ts";
+import { line, s } from "./ansi.ts";
+import { connectorFetch, target } from "./client.ts";
+import { remaining } from "./status.ts";
+
+interface AccountView {
+  account: number;
+  status: string;
+  email?: string;
+  cooldown: { until: number; exhausted: boolean; consecutive429: number } | null;
+  activeThreads: number;
+  inFlight: number;
+  queued: { interactive: number; background: number };
+  strategies?: { preferred?: string; cooldowns: Record<string, number> };
+}
+
+interface RequestView {
+  timestamp: string;
+  route: string;
+  provider: string;
+  model: string;
+  statusCode: number;
+  durationMs: number;
+  queuedMs?: number;
+}
+
+const USAGE = [
+  "accounts                       Accounts with cooldown and pinned-thread counts",
+  "clear <provider> <account>     Clear an account's cooldown",
+  "threads                        Thread → account pins",
+  "unpin <thread-id>              Drop a thread's pins so it is routed afresh",
+  "log-level <level>              Change the log level until the next config reload",
+  "requests [n]                   Most recent requests (default 20)",
+];
+
+export async function ctlCommand(args: string[]): Promise<void> {
+  setLogLevel("warn");
+  const json = args.includes("--json");
+  const [cmd, ...rest] = args.filter((a) => a !== "--json");
+  const config = await loadConfig();
+
+  const call = async (method: string, path: string, body?: unknown): Promise<unknown> => {
+    let res: Response;
+    try {
+      res = await connectorFetch(config, `${ADMIN_PREFIX}${path}`, {
+        method,
+        headers: { authorization: `Bearer ${adminKey()}`, "content-type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (err) {
+      throw new Error(`Cannot reach the proxy at ${target(config)} — is it running? (${String(err)})`);
+    }
+    const data = (await res.json().catch(() => null)) as { error?: { message?: string } } | null;
+    if (!res.ok) throw new Error(data?.error?.message ?? `HTTP ${res.status}`);
+    return data;
+  };
+
+  try {
+    const result = await run(cmd, rest, call);
+    if (json && result !== undefined) line(JSON.stringify(result, null, 2));
+    else if (result !== undefined) print(cmd!, result);
+  } catch (err) {
+    line(`${s.red}✗${s.reset} ${err instanceof Error ? err.message : String(err)}`);
+    process.exitCode = 1;
+  }
+}
+
+async function run(
+  cmd: string | undefined,
+  args: string[],
+  call: (method: string, path: string, body?: unknown) => Promise<unknown>,
+): Promise<unknown> {
+  switch (cmd) {
+    case "accounts":
+      return call("GET", "/accounts");
+    case "clear": {
+      const [provider, account] = args;
+      if (!provider || !account) throw new Error("Usage: ctl clear <provider> <account>");
+      return call("DELETE", `/accounts/${provider}/${account}/cooldown`);
+    }
+    case "threads":
+      return call("GET", "/affinity");
+    case "unpin": {
+      const [thread] = args;
+      if (!thread) throw new Error("Usage: ctl unpin <thread-id>");
+      return call("DELETE", `/affinity/${encodeURIComponent(thread)}`);
+    }
+    case "log-level": {
+      const [level] = args;
+      if (!level) throw new Error("Usage: ctl log-level <debug|info|warn|error>");
+      return call("PUT", "/log-level", { level });
+    }
+    case "requests":
+      return call("GET", `/requests?limit=${args[0] ?? 20}`);
+    default:
+      usage(cmd);
+      return undefined;
+  }
+}
+
+function print(cmd: string, result: unknown): void {
+  switch (cmd) {
+    case "accounts":
+      printAccounts(result as { providers: { provider: string; accounts: AccountView[] }[] });
+      return;
+    case "threads": {
+      const { threads } = result as {
+        threads: { threadId: string; ampProvider: string; pool: string; account: number }[];
+      };
+      line();
+      if (threads.length === 0) line(`  ${s.dim}No pinned threads${s.reset}`);
+      for (const t of threads) line(`  ${t.threadId.padEnd(40)} ${t.ampProvider.padEnd(10)} → ${t.pool}:${t.account}`);
+      line();
+      return;
+    }
+    case "requests":
+      printRequests((result as { requests: RequestView[] }).requests);
+      return;
+    case "clear":
+      line(
+        `${s.green}✓${s.reset} ${(result as { cleared: boolean }).cleared ? "Cooldown cleared" : "Account was not cooling down"}`,
+      );
+      return;
+    case "unpin":
+      line(`${s.green}✓${s.reset} Removed ${(result as { removed: number }).removed} pin(s)`);
+      return;
+    case "log-level":
+      line(`${s.green}✓${s.reset} Log level ${(result as { level: string }).level}`);
+      return;
+  }
+}
+
+function printAccounts({ providers }: { providers: { provider: string; accounts: AccountView[] }[] }): void {
+  line();
+  for (const { provider, accounts } of providers) {
+    line(`  ${s.bold}${provider}${s.reset}`);
+    if (accounts.length === 0) line(`    ${s.dim}--${s.reset}`);
+    for (const a of accounts) {
+      const who = `#${a.account} ${a.email ?? ""}`.padEnd(34);
+      const color = a.status === "connected" ? s.green : a.status === "disabled" ? s.red : s.yellow;
+      let detail = "";
+      if (a.cooldown) {
+        const kind = a.cooldown.exhausted ? "exhausted" : "cooling down";
+        detail += `  ${s.yellow}${kind} ${remaining(a.cooldown.until)}${s.reset}`;
+      }
+      if (a.activeThreads > 0) detail += `  ${s.dim}${a.activeThreads} thread(s)${s.reset}`;
+      if (a.inFlight > 0) detail += `  ${s.dim}${a.inFlight} in flight${s.reset}`;
+      const queued = a.queued.interactive + a.queued.background;
+      if (queued > 0) detail += `  ${s.yellow}${queued} queued${s.reset}`;
+      if (a.strategies) {
+        const cooling = Object.entries(a.strategies.cooldowns).map(([name, until]) => `${name} ${remaining(until)}`);
+        if (a.strategies.preferred) detail += `  ${s.dim}prefers ${a.strategies.preferred}${s.reset}`;
+        if (cooling.length > 0) detail += `  ${s.yellow}${cooling.join(", ")}${s.reset}`;
+      }
+      line(`    ${who} ${color}${a.status.padEnd(12)}${s.reset}${detail}`);
+    }
+  }
+  line();
+}
+
+function printRequests(requests: RequestView[]): void {
+  line();
+  if (requests.length === 0) line(`  ${s.dim}No requests yet${s.reset}`);
+  for (const r of requests) {
+    const color = r.statusCode < 400 ? s.green : r.statusCode === 429 ? s.yellow : s.red;
+    const queued = r.queuedMs ? `, queued ${r.queuedMs}ms` : "";
+    line(
+      `  ${s.dim}${r.timestamp.slice(11, 19)}${s.reset}  ${color}${r.statusCode}${s.reset}  ${r.route.padEnd(13)} ${r.model.padEnd(32)} ${s.dim}${r.durationMs}ms${queued}${s.reset}`,
+    );
+  }
+  line();
+}
+
+function usage(cmd: string | undefined): void {
+  if (cmd) line(`${s.red}✗${s.reset} Unknown ctl command: ${cmd}`);
+  line();
+  line(`${s.bold}ampcode-connector ctl${s.reset} <command> ${s.dim}[--json]${s.reset}`);
+  line();
+  for (const u of USAGE) line(`  ${s.cyan}${u.slice(0, 31)}${s.reset}${u.slice(31)}`);
+  line();
+  if (cmd) process.exitCode = 1;
+}
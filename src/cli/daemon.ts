@@ -0,0 +1,258 @@
+/** Background lifecycle — `start --daemon`, `stop`, `restart` and `status [--check]`. A running
+ *  proxy keeps its pid in `connector.pid` next to credentials.db (`connector-<profile>.pid` under a
+ *  profile); a daemonized one logs to `connector.log`. `status` asks the running instance, not the DB. */
+
+import { spawn } from "node:child_process";
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import * as store from "../auth/store.ts";
+import type { ProxyConfig } from "../config/config.ts";
+import type { BudgetStatus } from "../routing/budget.ts";
+import { type HealthState, type ProviderHealth, READINESS_PATH, type Readiness } from "../server/health.ts";
+import { clearStaleSocket, listensOnTcp, socketPath } from "../server/socket.ts";
+import { line, s } from "./ansi.ts";
+import { connectorFetch, target } from "./client.ts";
+import { budgetSpent, describeBudget, remaining } from "./status.ts";
+
+/** How long `start --daemon` waits for the child to answer before giving up. */
+const START_TIMEOUT_MS = 15_000;
+const POLL_MS = 200;
+/** Log lines shown when the daemon fails to start. */
+const LOG_TAIL = 15;
+
+interface HealthView extends Readiness {
+  pid?: number;
+  upstreamBudget?: BudgetStatus[];
+  stats: { uptimeMs: number; totalRequests: number; queuedRequests: number; count429: number };
+}
+
+/** `status --check` exit codes, monitoring-plugin style. */
+const CHECK_EXIT: Record<HealthState, number> = { ok: 0, degraded: 1, down: 2 };
+
+function baseName(config: ProxyConfig): string {
+  return config.profile ? `connector-${config.profile}` : "connector";
+}
+
+export function pidFile(config: ProxyConfig): string {
+  return join(store.dataDir(), `${baseName(config)}.pid`);
+}
+
+export function logFile(config: ProxyConfig): string {
+  return join(store.dataDir(), `${baseName(config)}.log`);
+}
+
+/** Pid recorded in `file` when that process is still alive. A stale file is removed. */
+export function runningPid(file: string): number | null {
+  if (!existsSync(file)) return null;
+  const pid = Number(readFileSync(file, "utf-8").trim());
+  if (Number.isInteger(pid) && pid > 0 && isAlive(pid)) return pid;
+  rmSync(file, { force: true });
+  return null;
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to someone else.
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** Record this process as the running instance; the file goes away when it exits. */
+export function writePidFile(config: ProxyConfig): void {
+  const file = pidFile(config);
+  mkdirSync(store.dataDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(file, `${process.pid}\n`);
+  process.on("exit", () => {
+    if (existsSync(file) && readFileSync(file, "utf-8").trim() === String(process.pid)) rmSync(file, { force: true });
+  });
+}
+
+/** Why the configured listeners cannot be bound, or null when they are free. */
+export async function preflight(config: ProxyConfig): Promise<string | null> {
+  const pid = runningPid(pidFile(config));
+  if (pid) return `ampcode-connector is already running (pid ${pid}) — use \`stop\` or \`restart\``;
+
+  const unix = socketPath(config);
+  if (unix) {
+    try {
+      await clearStaleSocket(unix);
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+  if (listensOnTcp(config) && !portIsFree(config.hostname, config.port)) {
+    return `Port ${config.port} on ${config.hostname} is already in use`;
+  }
+  return null;
+}
+
+export function portIsFree(hostname: string, port: number): boolean {
+  try {
+    Bun.listen({ hostname, port, socket: { data() {} } }).stop(true);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Start the proxy in the background and wait until it answers. `args` are passed on to it. */
+export async function startDaemon(config: ProxyConfig, args: string[]): Promise<void> {
+  const problem = await preflight(config);
+  if (problem) return fail(problem);
+
+  const log = logFile(config);
+  mkdirSync(store.dataDir(), { recursive: true, mode: 0o700 });
+  const fd = openSync(log, "a", 0o600);
+  const offset = statSync(log).size;
+  const child = spawn(process.execPath, [process.argv[1]!, "start", ...args], {
+    detached: true,
+    stdio: ["ignore", fd, fd],
+  });
+  child.unref();
+  closeSync(fd);
+
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await Bun.sleep(POLL_MS);
+    if (child.exitCode !== null || child.signalCode !== null) break;
+    if (runningPid(pidFile(config)) === child.pid && (await health(config))) {
+      line(`${s.green}✓${s.reset} ampcode-connector started ${s.dim}(pid ${child.pid})${s.reset} → ${target(config)}`);
+      line(`  ${s.dim}logs → ${log}${s.reset}`);
+      return;
+    }
+  }
+
+  if (child.exitCode === null && child.signalCode === null) child.kill("SIGTERM");
+  line(`${s.red}✗${s.reset} ampcode-connector did not start — last lines of ${log}:`);
+  const output = readFileSync(log, "utf-8").slice(offset).trimEnd().split("\n").slice(-LOG_TAIL);
+  for (const text of output) line(`  ${s.dim}${text}${s.reset}`);
+  process.exitCode = 1;
+}
+
+/** SIGTERM the running instance and wait for it to drain. False when nothing was running. */
+export async function stopDaemon(config: ProxyConfig): Promise<boolean> {
+  const pid = runningPid(pidFile(config));
+  if (!pid) return false;
+
+  process.kill(pid, "SIGTERM");
+  line(`${s.dim}Stopping ampcode-connector (pid ${pid}), draining for up to ${config.drainTimeoutS}s...${s.reset}`);
+  if (!(await exited(pid, (config.drainTimeoutS + 5) * 1000))) {
+    // A second signal makes the proxy exit without waiting for in-flight requests.
+    process.kill(pid, "SIGTERM");
+    if (!(await exited(pid, 5000))) {
+      fail(`pid ${pid} did not exit`);
+      return true;
+    }
+  }
+  rmSync(pidFile(config), { force: true });
+  line(`${s.green}✓${s.reset} ampcode-connector stopped`);
+  return true;
+}
+
+async function exited(pid: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (isAlive(pid)) {
+    if (Date.now() >= deadline) return false;
+    await Bun.sleep(POLL_MS);
+  }
+  return true;
+}
+
+export async function daemonCommand(
+  command: string,
+  config: ProxyConfig,
+  args: string[],
+  options: { check?: boolean } = {},
+): Promise<void> {
+  switch (command) {
+    case "stop":
+      if (!(await stopDaemon(config))) fail("ampcode-connector is not running");
+      return;
+    case "restart":
+      if (!(await stopDaemon(config))) line(`${s.dim}ampcode-connector was not running${s.reset}`);
+      if (process.exitCode) return;
+      return startDaemon(config, args);
+    case "status":
+      return options.check ? check(config) : printStatus(config);
+  }
+}
+
+async function health(config: ProxyConfig): Promise<HealthView | null> {
+  try {
+    const res = await connectorFetch(config, "/status", { signal: AbortSignal.timeout(3000) });
+    return res.ok ? ((await res.json()) as HealthView) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** One line and an exit code from the readiness endpoint — for scripts and container healthchecks. */
+async function check(config: ProxyConfig): Promise<void> {
+  // A down proxy answers 503 with the same report; a draining one with a plain error.
+  const report = await connectorFetch(config, READINESS_PATH, { signal: AbortSignal.timeout(3000) })
+    .then((res) => res.json() as Promise<Readiness>)
+    .catch(() => null);
+  if (!report?.providers) {
+    line(`down — no readiness report from ${target(config)}`);
+    process.exitCode = CHECK_EXIT.down;
+    return;
+  }
+  const problems = Object.entries(report.providers)
+    .filter(([, p]) => p.state !== "ok" && p.state !== "disabled" && p.state !== "no_accounts")
+    .map(([name, p]) => `${name} ${p.state}${p.nextCooldownEnd ? ` (${remaining(p.nextCooldownEnd)})` : ""}`);
+  line(problems.length > 0 ? `${report.status} — ${problems.join(", ")}` : report.status);
+  process.exitCode = CHECK_EXIT[report.status];
+}
+
+async function printStatus(config: ProxyConfig): Promise<void> {
+  const pid = runningPid(pidFile(config));
+  const current = await health(config);
+  line();
+  if (!current) {
+    if (pid) line(`  ${s.yellow}●${s.reset} pid ${pid} is running but not answering at ${target(config)}`);
+    else line(`  ${s.dim}○${s.reset} ampcode-connector is not running`);
+    line();
+    process.exitCode = 1;
+    return;
+  }
+
+  const { stats } = current;
+  const who = current.pid ?? pid;
+  const color = current.status === "ok" ? s.green : current.status === "degraded" ? s.yellow : s.red;
+  line(
+    `  ${color}●${s.reset} ${s.bold}running${s.reset} ${color}${current.status}${s.reset}  ${s.dim}${who ? `pid ${who} · ` : ""}up ${remaining(Date.now() + stats.uptimeMs)} · ${target(config)}${s.reset}`,
+  );
+  line(
+    `  ${s.dim}${stats.totalRequests} request(s) · ${stats.queuedRequests} queued · ${stats.count429} rate-limited (recent)${s.reset}`,
+  );
+  line();
+  for (const [name, provider] of Object.entries(current.providers)) line(`  ${name.padEnd(12)}${describe(provider)}`);
+  line();
+  if (current.upstreamBudget?.length) {
+    line(`  ${s.bold}upstream budget${s.reset}`);
+    for (const b of current.upstreamBudget) {
+      line(`  ${budgetSpent(b) ? s.red : s.dim}${describeBudget(b)}${s.reset}`);
+    }
+    line();
+  }
+}
+
+function describe({ state, accounts, nextCooldownEnd }: ProviderHealth): string {
+  if (state === "disabled") return `${s.dim}disabled${s.reset}`;
+  if (state === "no_accounts") return `${s.dim}no accounts${s.reset}`;
+  const color = state === "ok" ? s.green : state === "missing_credentials" ? s.red : s.yellow;
+  const parts = [`${accounts.usable} usable`];
+  if (accounts.cooling > 0) parts.push(`${accounts.cooling} cooling`);
+  if (accounts.exhausted > 0) parts.push(`${accounts.exhausted} exhausted`);
+  if (accounts.missingCredentials > 0) parts.push(`${accounts.missingCredentials} logged out`);
+  const next = nextCooldownEnd ? ` · next cooldown ends in ${remaining(nextCooldownEnd)}` : "";
+  return `${color}${state.padEnd(20)}${s.reset}${s.dim}${parts.join(", ")}${next}${s.reset}`;
+}
+
+function fail(message: string): void {
+  line(`${s.red}✗${s.reset} ${message}`);
+  process.exitCode = 1;
+}
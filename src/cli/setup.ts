@@ -4,6 +4,8 @@ import { existsSync, lstatSync, mkdirSync, readFileSync, writeFileSync } from "n
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
 import { loadConfig } from "../config/config.ts";
+import { clientUrl, listensOnTcp, socketPath } from "../server/socket.ts";
+import { tlsFiles, trustHint } from "../server/tls.ts";
 import { line, out, s } from "./ansi.ts";
 import * as status from "./status.ts";
 
@@ -94,12 +96,22 @@ function prompt(question: string): Promise<string> {
 
 export async function setup(): Promise<void> {
   const config = await loadConfig();
-  const proxyUrl = `http://localhost:${config.port}`;
+  const proxyUrl = clientUrl(config);
 
   line();
   line(`${s.bold}ampcode-connector setup${s.reset}`);
   line();
 
+  if (!proxyUrl) {
+    line(
+      `${s.red}✗${s.reset} The proxy listens on ${s.dim}${socketPath(config)}${s.reset} only, and Amp needs a TCP URL.`,
+    );
+    line(`   Set ${s.cyan}socket.shimPort${s.reset} (or ${s.cyan}socket.tcp: true${s.reset}) and run setup again.`);
+    line();
+    process.exitCode = 1;
+    return;
+  }
+
   // Step 1: Configure amp.url in canonical settings file
   const settingsPath = ampSettingsPath();
   const settings = readJson(settingsPath);
@@ -110,6 +122,13 @@ export async function setup(): Promise<void> {
   line(`${s.green}ok${s.reset} amp.url = ${s.cyan}${proxyUrl}${s.reset}  ${s.dim}${settingsPath}${s.reset}`);
   warnLegacySettingsFile();
 
+  // HTTPS with the generated CA: issue it now so its path can be shown, and Amp has to trust it.
+  const tls = listensOnTcp(config) ? tlsFiles(config) : undefined;
+  if (tls?.ca) {
+    line(`${s.yellow}!${s.reset} Trust the local CA ${s.dim}${tls.ca}${s.reset} in Amp and other clients:`);
+    for (const hint of trustHint(tls.ca)) line(`   ${s.dim}${hint}${s.reset}`);
+  }
+
   // Step 2: Amp API key
   const existingKey = findAmpApiKey(proxyUrl);
 
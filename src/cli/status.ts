@@ -1,5 +1,6 @@
 import type { Credentials, ProviderName } from "../auth/store.ts";
 import * as store from "../auth/store.ts";
+import { type BudgetStatus, GLOBAL_SCOPE } from "../routing/budget.ts";
 import { cooldown, type QuotaPool } from "../routing/cooldown.ts";
 
 export type ConnectionStatus = "connected" | "expired" | "disabled" | "disconnected";
@@ -59,3 +60,23 @@ export function remaining(expiresAt: number): string {
   if (hrs > 0) return `${hrs}h ${mins % 60}m`;
   return `${mins}m`;
 }
+
+/** One upstream budget line, e.g. `daily  claude-opus-*  12/20 requests · resets in 5h 3m`. */
+export function describeBudget(b: BudgetStatus): string {
+  const scope = b.scope === GLOBAL_SCOPE ? "all models" : b.scope;
+  const parts: string[] = [];
+  if (b.requests) parts.push(`${b.requests.used}/${b.requests.limit} requests`);
+  if (b.tokens) parts.push(`${compact(b.tokens.used)}/${compact(b.tokens.limit)} tokens`);
+  return `${b.window.padEnd(8)}${scope.padEnd(18)}${parts.join(" · ")} · resets in ${remaining(b.resetsAt)}`;
+}
+
+/** Whether a budget line has a limit used up. */
+export function budgetSpent(b: BudgetStatus): boolean {
+  return [b.requests, b.tokens].some((usage) => usage && usage.used >= usage.limit);
+}
+
+function compact(n: number): string {
+  if (n >= 1_000_000) return `${+(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${+(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
@@ -0,0 +1,72 @@
+/** `token` — manage the access tokens clients present when `auth.required` is set. */
+
+import * as tokens from "../auth/tokens.ts";
+import { line, s } from "./ansi.ts";
+
+export function tokenCommand(args: string[]): void {
+  const [sub, arg] = args;
+  switch (sub) {
+    case "create":
+      create(arg ?? "default");
+      break;
+    case "list":
+    case undefined:
+      list();
+      break;
+    case "revoke":
+      revoke(arg);
+      break;
+    default:
+      line(`${s.red}✗${s.reset} Unknown token command: ${sub}. Available: create [name], list, revoke <id|name>`);
+      process.exitCode = 1;
+  }
+}
+
+function create(name: string): void {
+  const { token, info } = tokens.create(name);
+  line();
+  line(`  ${s.green}✓${s.reset} Created token ${s.bold}${info.name}${s.reset} ${s.dim}(id ${info.id})${s.reset}`);
+  line();
+  line(`  ${s.cyan}${token}${s.reset}`);
+  line();
+  line(`  ${s.dim}Shown once — store it now. Clients send it as one of:${s.reset}`);
+  line(`  ${s.dim}  X-Connector-Token: <token>${s.reset}`);
+  line(`  ${s.dim}  Proxy-Authorization: Bearer <token>${s.reset}`);
+  line(`  ${s.dim}  AMP_API_KEY=<token>  (upstream then uses the connector's own ampApiKey)${s.reset}`);
+  line(`  ${s.dim}Enforced when config has auth.required: true.${s.reset}`);
+  line();
+}
+
+function list(): void {
+  const all = tokens.list();
+  line();
+  if (all.length === 0) {
+    line(`  ${s.dim}No access tokens. Create one with: ampcode-connector token create <name>${s.reset}`);
+    line();
+    return;
+  }
+  const nameWidth = Math.max(4, ...all.map((t) => t.name.length)) + 2;
+  line(`  ${s.dim}${"ID".padEnd(10)}${"NAME".padEnd(nameWidth)}${"CREATED".padEnd(22)}LAST USED${s.reset}`);
+  for (const t of all) {
+    line(`  ${t.id.padEnd(10)}${t.name.padEnd(nameWidth)}${date(t.createdAt).padEnd(22)}${date(t.lastUsedAt)}`);
+  }
+  line();
+}
+
+function revoke(idOrName: string | undefined): void {
+  if (!idOrName) {
+    line(`${s.red}✗${s.reset} Usage: ampcode-connector token revoke <id|name>`);
+    process.exitCode = 1;
+    return;
+  }
+  if (tokens.revoke(idOrName)) {
+    line(`${s.green}✓${s.reset} Revoked ${idOrName}`);
+  } else {
+    line(`${s.red}✗${s.reset} No token with id or name ${idOrName}`);
+    process.exitCode = 1;
+  }
+}
+
+function date(ms: number | null): string {
+  return ms ? new Date(ms).toISOString().slice(0, 19).replace("T", " ") : "--";
+}
@@ -3,6 +3,9 @@ import type { OAuthConfig } from "../auth/oauth.ts";
 import * as oauth from "../auth/oauth.ts";
 import type { ProviderName } from "../auth/store.ts";
 import * as store from "../auth/store.ts";
+import * as live from "../config/live.ts";
+import { budget, hasLimits } from "../routing/budget.ts";
+import { restoreBudget } from "../server/state.ts";
 import { cursor, line, s, screen } from "./ansi.ts";
 import type { AccountStatus, ConnectionStatus, ProviderStatus } from "./status.ts";
 import * as status from "./status.ts";
@@ -79,12 +82,25 @@ function render(): void {
     }
   }
 
+  renderBudget();
+
   line();
   if (busy) line(`${s.cyan}   ⟳ waiting for browser…${s.reset}`);
   else if (message) line(`   ${message}`);
   else line();
 }
 
+/** What the proxy has spent of its upstream budget — read back from credentials.db. */
+function renderBudget(): void {
+  const config = live.get().upstreamBudget;
+  if (!hasLimits(config)) return;
+  restoreBudget();
+  line();
+  line(`   ${s.bold}Upstream budget${s.reset}`);
+  for (const b of budget.snapshot(config))
+    line(`     ${status.budgetSpent(b) ? s.red : s.dim}${status.describeBudget(b)}${s.reset}`);
+}
+
 function renderProvider(p: ProviderStatus, sel: boolean): void {
   const n = p.accounts.length;
   const connected = p.accounts.filter((a) => a.status === "connected").length;
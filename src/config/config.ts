@@ -1,10 +1,35 @@
-/** YAML config loader with env/file fallback for API key. */
+/** YAML config loader — validates against the declared schema, then merges env, file and secrets.json. */
 
 import { homedir } from "node:os";
 import { join } from "node:path";
+import type { ProviderName } from "../auth/store.ts";
 import { DEFAULT_AMP_UPSTREAM_URL } from "../constants.ts";
+import type { EgressConfig } from "../proxy/egress.ts";
+import type { UpstreamBudgetConfig } from "../routing/budget.ts";
+import type { QuotaPool } from "../routing/cooldown.ts";
+import type { LocalOnlyConfig } from "../routing/local-only.ts";
+import { DEFAULT_POLICY, type RoutingPolicy } from "../routing/policy.ts";
+import type { RoutingRule } from "../routing/rules.ts";
+import type { SocketConfig } from "../server/socket.ts";
+import type { TlsConfig } from "../server/tls.ts";
 import type { LogLevel } from "../utils/logger.ts";
 import { logger } from "../utils/logger.ts";
+import type { ModelsConfig } from "../utils/models.ts";
+import { PROFILE_ENV, readEnvOverrides, readLegacyEnv } from "./env.ts";
+import {
+  type ConfigIssue,
+  type Field,
+  fileSchema,
+  getPath,
+  type Layer,
+  leaves,
+  lineOf,
+  merge,
+  schema,
+  setPath,
+  validate,
+} from "./schema.ts";
+import { isSecretRef, resolveSecret } from "./secrets.ts";
 
 export interface ProxyConfig {
   hostname: string;
@@ -18,6 +43,30 @@ export interface ProxyConfig {
     codex: boolean;
     google: boolean;
   };
+  /** Unix domain socket listener, instead of or besides hostname:port. */
+  socket?: SocketConfig;
+  /** Serve HTTPS — user-supplied certificate, or one issued by a generated local CA. */
+  tls: TlsConfig;
+  /** Require a connector access token on provider, passthrough and internal routes. */
+  auth: { required: boolean };
+  /** Stored accounts eligible for routing, by index or email. Unset = all accounts. */
+  accounts?: Partial<Record<ProviderName, (number | string)[]>>;
+  /** Cooldown/retry tuning; `pools` overrides individual values per quota pool. */
+  routing: RoutingPolicy & { pools?: Partial<Record<QuotaPool, Partial<RoutingPolicy>>> };
+  /** Ordered routing rules matched on Amp provider, model and thread; first match wins. */
+  rules?: RoutingRule[];
+  /** Outbound HTTP(S)/SOCKS5 proxy — global, per provider and per stored account. */
+  proxy?: EgressConfig;
+  /** Model alias rules and per-provider default models, ahead of the built-in table. */
+  models?: ModelsConfig;
+  /** Requests that must never fall back to Amp upstream — globally, per Amp provider or per model. */
+  localOnly?: LocalOnlyConfig;
+  /** Caps on requests and estimated tokens sent to Amp upstream per hour/day, globally and per model. */
+  upstreamBudget?: UpstreamBudgetConfig;
+  /** Seconds a shutdown waits for in-flight responses before closing them. */
+  drainTimeoutS: number;
+  /** Active profile name, when one was selected. */
+  profile?: string;
 }
 
 const DEFAULTS: ProxyConfig = {
@@ -26,65 +75,181 @@ const DEFAULTS: ProxyConfig = {
   ampUpstreamUrl: DEFAULT_AMP_UPSTREAM_URL,
   logLevel: "info",
   providers: { anthropic: true, codex: true, google: true },
+  tls: { enabled: false },
+  auth: { required: false },
+  routing: DEFAULT_POLICY,
+  drainTimeoutS: 30,
 };
 
 /** Config search order: cwd → ~/.config/ampcode-connector */
-const CONFIG_PATHS = [
-  join(process.cwd(), "config.yaml"),
-  join(homedir(), ".config", "ampcode-connector", "config.yaml"),
-];
+const CONFIG_DIRS = [process.cwd(), join(homedir(), ".config", "ampcode-connector")];
+const CONFIG_NAME = "config.yaml";
+const PROFILE_NAME_RE = /^[\w-]+$/;
 const SECRETS_PATH = join(homedir(), ".local", "share", "amp", "secrets.json");
 
+export type ConfigSource = "default" | "file" | "profile" | "env" | "secrets.json";
+
+export interface ResolvedConfig {
+  config: ProxyConfig;
+  /** Config files the values were read from (base first), empty when running on defaults. */
+  files: string[];
+  /** Dotted leaf path → where its effective value came from. Unset optional fields are absent. */
+  sources: Map<string, ConfigSource>;
+  /** Dotted leaf path → the secret reference (env:/file:/exec:) its value was resolved from. */
+  secretRefs: Map<string, string>;
+}
+
+/** Thrown when the config file fails schema validation. Lists every issue with file/line context. */
+export class ConfigError extends Error {
+  readonly path: string;
+  readonly issues: ConfigIssue[];
+
+  constructor(path: string, issues: ConfigIssue[]) {
+    super(`Invalid config at ${path}:\n${issues.map((i) => `  ${formatIssue(path, i)}`).join("\n")}`);
+    this.name = "ConfigError";
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+export function formatIssue(path: string, issue: ConfigIssue): string {
+  const location = issue.line !== undefined ? `${path}:${issue.line}` : path;
+  return `${location}: ${issue.path || "(root)"}: ${issue.message}`;
+}
+
+let selectedProfile: string | undefined;
+
+/** Select a profile for every subsequent load (e.g. from --profile). Overrides AMPCC_PROFILE. */
+export function selectProfile(name: string | undefined): void {
+  selectedProfile = name;
+}
+
+const warnedEnv = new Set<string>();
+
+/** Once per variable — the config is re-read on every reload. */
+function warnUnknownEnv(name: string): void {
+  if (warnedEnv.has(name)) return;
+  warnedEnv.add(name);
+  logger.warn(`Ignoring unknown environment variable ${name}`);
+}
+
+function activeProfile(): string | undefined {
+  return selectedProfile ?? (process.env[PROFILE_ENV] || undefined);
+}
+
 export async function loadConfig(): Promise<ProxyConfig> {
-  const file = await readConfigFile();
-  const apiKey = await resolveApiKey(file);
-  const providers = asRecord(file?.providers);
+  return (await resolveConfig()).config;
+}
 
-  const port = asNumber(file?.port) ?? DEFAULTS.port;
-  if (port < 1 || port > 65535) {
-    throw new Error(`Invalid port ${port}: must be between 1 and 65535`);
+/** Precedence per field: AMPCC_* env → profile (config.<name>.yaml, then profiles.<name>) → config file
+ *  → legacy env (HOST, AMP_API_KEY, EXA_API_KEY) → secrets.json → default. */
+export async function resolveConfig(): Promise<ResolvedConfig> {
+  const file = await readConfigFile(CONFIG_NAME, fileSchema);
+  const overrides = readEnvOverrides();
+  if (overrides.issues.length > 0) throw new ConfigError("environment", overrides.issues);
+  for (const name of overrides.unknown) warnUnknownEnv(name);
+
+  const layers: Layer<ConfigSource>[] = [{ source: "env", values: overrides.values }];
+  const files = file ? [file.path] : [];
+
+  const profile = activeProfile();
+  if (profile) {
+    if (!PROFILE_NAME_RE.test(profile)) throw new Error(`Invalid profile name "${profile}"`);
+    const profiles = (file?.values?.profiles ?? {}) as Record<string, unknown>;
+    const profileFile = await readConfigFile(`config.${profile}.yaml`, schema);
+    if (!profileFile && !(profile in profiles)) {
+      const available = Object.keys(profiles);
+      throw new Error(
+        `Unknown profile "${profile}": no profiles.${profile} section and no config.${profile}.yaml` +
+          (available.length > 0 ? `. Available: ${available.join(", ")}` : ""),
+      );
+    }
+    if (profileFile) {
+      layers.push({ source: "profile", values: profileFile.values });
+      files.push(profileFile.path);
+    }
+    layers.push({ source: "profile", values: profiles[profile] });
   }
 
-  return {
-    hostname: asString(file?.hostname) ?? process.env.HOST ?? DEFAULTS.hostname,
-    port,
-    ampUpstreamUrl: asString(file?.ampUpstreamUrl) ?? DEFAULTS.ampUpstreamUrl,
-    ampApiKey: apiKey,
-    exaApiKey: asString(file?.exaApiKey) ?? process.env.EXA_API_KEY,
-    logLevel: asLogLevel(file?.logLevel) ?? DEFAULTS.logLevel,
-    providers: {
-      anthropic: asBool(providers?.anthropic) ?? DEFAULTS.providers.anthropic,
-      codex: asBool(providers?.codex) ?? DEFAULTS.providers.codex,
-      google: asBool(providers?.google) ?? DEFAULTS.providers.google,
-    },
-  };
+  layers.push({ source: "file", values: file?.values }, { source: "env", values: readLegacyEnv() });
+  if (!layers.some((layer) => asString(getPath(layer.values, "ampApiKey")))) {
+    layers.push({ source: "secrets.json", values: { ampApiKey: await readSecretsFile() } });
+  }
+
+  const sources = new Map<string, ConfigSource>();
+  const config = merge(layers, DEFAULTS, sources) as ProxyConfig;
+  if (profile) config.profile = profile;
+  const secretRefs = await resolveSecretRefs(config, sources, files);
+  return { config, files, sources, secretRefs };
 }
 
-async function readConfigFile(): Promise<Record<string, unknown> | null> {
-  for (const configPath of CONFIG_PATHS) {
-    const file = Bun.file(configPath);
-    if (await file.exists()) {
-      try {
-        const text = await file.text();
-        logger.info(`Loaded config from ${configPath}`);
-        return Bun.YAML.parse(text) as Record<string, unknown>;
-      } catch (err) {
-        throw new Error(`Invalid config at ${configPath}: ${err}`);
-      }
+/** Replace env:/file:/exec: references in secret fields with their values, in place. */
+async function resolveSecretRefs(
+  config: ProxyConfig,
+  sources: Map<string, ConfigSource>,
+  files: string[],
+): Promise<Map<string, string>> {
+  const refs = new Map<string, string>();
+  const failures = new Map<string, ConfigIssue[]>();
+
+  for (const [key, field] of leaves()) {
+    if (field.type !== "string" || !field.secret) continue;
+    const ref = getPath(config, key);
+    if (!isSecretRef(ref)) continue;
+    try {
+      setPath(config as unknown as Record<string, unknown>, key, await resolveSecret(ref));
+      refs.set(key, ref);
+    } catch (err) {
+      // Report against where the reference was written: the environment or a config file.
+      const source = sources.get(key);
+      const origin = source === "env" ? "environment" : ((source === "profile" ? files[1] : files[0]) ?? "config");
+      const issues = failures.get(origin) ?? [];
+      issues.push({ path: key, message: `${ref}: ${err instanceof Error ? err.message : String(err)}` });
+      failures.set(origin, issues);
     }
   }
+
+  const [failed] = failures;
+  if (failed) throw new ConfigError(failed[0], failed[1]);
+  return refs;
+}
+
+/** First existing config file in search order, or null when running on defaults. */
+export async function findConfigPath(name = CONFIG_NAME): Promise<string | null> {
+  for (const dir of CONFIG_DIRS) {
+    const configPath = join(dir, name);
+    if (await Bun.file(configPath).exists()) return configPath;
+  }
   return null;
 }
 
-/** Amp API key resolution: config file → AMP_API_KEY env → secrets.json */
-async function resolveApiKey(file: Record<string, unknown> | null): Promise<string | undefined> {
-  const fromFile = asString(file?.ampApiKey);
-  if (fromFile) return fromFile;
+/** Every path whose creation or change affects the loaded config — for the hot-reload watcher. */
+export function watchTargets(): string[] {
+  const profile = activeProfile();
+  const names = profile ? [CONFIG_NAME, `config.${profile}.yaml`] : [CONFIG_NAME];
+  return CONFIG_DIRS.flatMap((dir) => names.map((name) => join(dir, name)));
+}
+
+async function readConfigFile(
+  name: string,
+  fileFields: Field,
+): Promise<{ path: string; values: Record<string, unknown> | null } | null> {
+  const configPath = await findConfigPath(name);
+  if (!configPath) return null;
+
+  const text = await Bun.file(configPath).text();
+  let values: Record<string, unknown> | null;
+  try {
+    values = Bun.YAML.parse(text) as Record<string, unknown> | null;
+  } catch (err) {
+    throw new Error(`Invalid config at ${configPath}: ${err}`);
+  }
 
-  const fromEnv = process.env.AMP_API_KEY;
-  if (fromEnv) return fromEnv;
+  const issues = validate(values, fileFields).map((issue) => ({ ...issue, line: lineOf(text, issue.path) }));
+  if (issues.length > 0) throw new ConfigError(configPath, issues);
 
-  return readSecretsFile();
+  logger.info(`Loaded config from ${configPath}`);
+  return { path: configPath, values };
 }
 
 async function readSecretsFile(): Promise<string | undefined> {
@@ -104,24 +269,6 @@ async function readSecretsFile(): Promise<string | undefined> {
   }
 }
 
-function asRecord(v: unknown): Record<string, unknown> | undefined {
-  return v != null && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, unknown>) : undefined;
-}
-
-function asNumber(v: unknown): number | undefined {
-  return typeof v === "number" && !Number.isNaN(v) ? v : undefined;
-}
-
 function asString(v: unknown): string | undefined {
   return typeof v === "string" && v.length > 0 ? v : undefined;
 }
-
-function asBool(v: unknown): boolean | undefined {
-  return typeof v === "boolean" ? v : undefined;
-}
-
-const VALID_LOG_LEVELS = new Set<string>(["debug", "info", "warn", "error"]);
-
-function asLogLevel(v: unknown): LogLevel | undefined {
-  return typeof v === "string" && VALID_LOG_LEVELS.has(v) ? (v as LogLevel) : undefined;
-}
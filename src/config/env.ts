@@ -0,0 +1,131 @@
+/** AMPCC_* environment overrides — one variable per schema leaf, derived from its key path.
+ *  providers.anthropic → AMPCC_PROVIDERS_ANTHROPIC, ampUpstreamUrl → AMPCC_AMP_UPSTREAM_URL. */
+
+import { type ConfigIssue, type Field, leaves, setPath, validate } from "./schema.ts";
+
+export const ENV_PREFIX = "AMPCC_";
+/** Selects a named profile — not a config field, so it has no schema leaf. */
+export const PROFILE_ENV = "AMPCC_PROFILE";
+
+/** Pre-AMPCC variables, still honored below the config file for backward compatibility. */
+export const LEGACY_ENV: Readonly<Record<string, string>> = {
+  hostname: "HOST",
+  ampApiKey: "AMP_API_KEY",
+  exaApiKey: "EXA_API_KEY",
+};
+
+/** Environment variable for a dotted config path. */
+export function envName(path: string): string {
+  const snake = path
+    .split(".")
+    .map((part) => part.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase())
+    .join("_");
+  return `${ENV_PREFIX}${snake}`;
+}
+
+/** Parse AMPCC_* variables into a nested values object. Issues use the variable name as path. */
+export function readEnvOverrides(env: Record<string, string | undefined> = process.env): {
+  values: Record<string, unknown>;
+  issues: ConfigIssue[];
+  /** Unknown AMPCC_* variables — typos, or settings of another version. Reported, not fatal. */
+  unknown: string[];
+} {
+  const values: Record<string, unknown> = {};
+  const issues: ConfigIssue[] = [];
+  const unknown: string[] = [];
+  const known = new Set<string>([PROFILE_ENV]);
+
+  for (const [path, field] of leaves()) {
+    const name = envName(path);
+    known.add(name);
+    const raw = env[name];
+    if (raw === undefined || raw === "") continue;
+
+    const parsed = coerce(raw, field);
+    if (parsed.error) {
+      issues.push({ path: name, message: parsed.error });
+      continue;
+    }
+    setPath(values, path, parsed.value);
+  }
+
+  // Range, enum and URL checks apply to env values exactly as to file values.
+  for (const issue of validate(values)) {
+    issues.push({ path: envName(issue.path), message: issue.message });
+  }
+
+  for (const name of Object.keys(env)) {
+    if (name.startsWith(ENV_PREFIX) && !known.has(name)) unknown.push(name);
+  }
+
+  return { values, issues, unknown };
+}
+
+/** Legacy variables as a values object (HOST → hostname, ...). */
+export function readLegacyEnv(env: Record<string, string | undefined> = process.env): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [path, name] of Object.entries(LEGACY_ENV)) {
+    if (env[name]) setPath(values, path, env[name]);
+  }
+  return values;
+}
+
+/** Name of the variable that supplied a config path, if any is set. */
+export function envSourceName(path: string, env: Record<string, string | undefined> = process.env): string | undefined {
+  const name = envName(path);
+  if (env[name]) return name;
+  const legacy = LEGACY_ENV[path];
+  return legacy && env[legacy] ? legacy : undefined;
+}
+
+function coerce(raw: string, field: Field): { value?: unknown; error?: string } {
+  switch (field.type) {
+    case "boolean": {
+      const v = raw.trim().toLowerCase();
+      if (["true", "1", "yes", "on"].includes(v)) return { value: true };
+      if (["false", "0", "no", "off"].includes(v)) return { value: false };
+      return { error: `expected boolean (true/false), got ${JSON.stringify(raw)}` };
+    }
+    case "number": {
+      const n = Number(raw.trim());
+      return Number.isNaN(n) ? { error: `expected number, got ${JSON.stringify(raw)}` } : { value: n };
+    }
+    case "account":
+      return { value: /^\d+$/.test(raw.trim()) ? Number(raw.trim()) : raw.trim() };
+    case "list": {
+      // Structured items (model aliases) take a YAML/JSON flow list:
+      // AMPCC_MODELS_ALIASES='[{match: "claude-*", to: "$1"}]'
+      if (field.item.type === "object") {
+        try {
+          const value = Bun.YAML.parse(raw);
+          return Array.isArray(value) ? { value } : { error: "expected a YAML list" };
+        } catch (err) {
+          return { error: `invalid YAML list: ${err}` };
+        }
+      }
+      // Comma-separated: AMPCC_ACCOUNTS_ANTHROPIC=0,work@example.com
+      const items = raw
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map((item) => coerce(item, field.item));
+      const failed = items.find((item) => item.error);
+      return failed ?? { value: items.map((item) => item.value) };
+    }
+    case "record": {
+      // Keyed values take a YAML/JSON flow mapping:
+      // AMPCC_PROXY_ACCOUNTS_CODEX='{0: "socks5://egress:1080", me@example.com: "http://proxy:3128"}'
+      try {
+        const value = Bun.YAML.parse(raw);
+        return value && typeof value === "object" && !Array.isArray(value)
+          ? { value }
+          : { error: "expected a YAML mapping" };
+      } catch (err) {
+        return { error: `invalid YAML mapping: ${err}` };
+      }
+    }
+    default:
+      // Strings, URLs and enums pass through; the schema check rejects bad values.
+      return { value: raw };
+  }
+}
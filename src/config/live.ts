@@ -0,0 +1,164 @@
+/** Live config — hot-reloads config.yaml on file change or SIGHUP.
+ *  Each request reads the current snapshot once, so in-flight requests finish on the
+ *  config they started with while new requests pick up the swapped one. */
+
+import { existsSync, type FSWatcher, watch } from "node:fs";
+import { basename, dirname } from "node:path";
+import { setEgressProxy } from "../proxy/egress.ts";
+import { setRoutingPolicy } from "../routing/policy.ts";
+import { logger, setLogLevel } from "../utils/logger.ts";
+import { setModelAliases } from "../utils/models.ts";
+import { loadConfig, type ProxyConfig, watchTargets } from "./config.ts";
+import { clearSecretCache } from "./secrets.ts";
+
+/** Fields bound when the server starts — changing them requires a restart. */
+const RESTART_FIELDS = ["hostname", "port", "socket", "tls"] as const satisfies readonly (keyof ProxyConfig)[];
+/** Editors emit several events per save (truncate, write, rename) — coalesce them. */
+const DEBOUNCE_MS = 200;
+
+let current: ProxyConfig | null = null;
+let watching = false;
+let watchers: FSWatcher[] = [];
+let debounceTimer: Timer | null = null;
+let pending: Promise<boolean> = Promise.resolve(true);
+
+/** Install the startup config. Call once before the server starts. */
+export function init(config: ProxyConfig): void {
+  current = config;
+  apply(config);
+}
+
+/** Current config snapshot. Read once per request and pass it down — never cache across requests. */
+export function get(): ProxyConfig {
+  if (!current) throw new Error("Config not initialized");
+  return current;
+}
+
+/** Re-read and re-validate the config file, then swap it in.
+ *  On failure the previous config stays live. Reloads are serialized. */
+export function reload(reason: string): Promise<boolean> {
+  // An unexpected throw must not leave the chain rejected — every later reload would fail with it.
+  pending = pending
+    .then(() => doReload(reason))
+    .catch((err) => {
+      logger.error(`Config reload failed (${reason})`, { error: String(err) });
+      return false;
+    });
+  return pending;
+}
+
+async function doReload(reason: string): Promise<boolean> {
+  const prev = get();
+
+  let next: ProxyConfig;
+  try {
+    next = await loadConfig();
+  } catch (err) {
+    logger.error(`Config reload failed (${reason}), keeping previous config`, { error: String(err) });
+    return false;
+  }
+
+  for (const field of RESTART_FIELDS) {
+    const before = JSON.stringify(prev[field]);
+    const after = JSON.stringify(next[field]);
+    if (after !== before) {
+      logger.warn(`Config ${field} changed (${before} → ${after}) — restart required, still using ${before}`);
+    }
+  }
+
+  const applied: ProxyConfig = {
+    ...next,
+    hostname: prev.hostname,
+    port: prev.port,
+    socket: prev.socket,
+    tls: prev.tls,
+  };
+  const changed = changedKeys(prev, applied);
+  current = applied;
+  apply(applied);
+
+  if (changed.length > 0) logger.info(`Config reloaded (${reason}): ${changed.join(", ")}`);
+  else logger.debug(`Config reloaded (${reason}): no changes`);
+  return true;
+}
+
+/** Push settings held outside the config object (module-level state) into their modules. */
+function apply(config: ProxyConfig): void {
+  setLogLevel(config.logLevel);
+  setRoutingPolicy(config.routing);
+  setModelAliases(config.models);
+  setEgressProxy(config.proxy);
+}
+
+/** Watch the config file(s) and listen for SIGHUP. Call once at server startup. */
+export function startWatching(): void {
+  if (watching) return;
+  watching = true;
+  process.on("SIGHUP", onSighup);
+
+  // Watch directories, not files: editors often save by rename, which orphans a file watch,
+  // and watching the directory also catches a config file created after startup.
+  const byDir = new Map<string, Set<string>>();
+  for (const target of watchTargets()) {
+    const names = byDir.get(dirname(target)) ?? new Set<string>();
+    names.add(basename(target));
+    byDir.set(dirname(target), names);
+  }
+
+  for (const [dir, names] of byDir) {
+    if (!existsSync(dir)) continue;
+    try {
+      watchers.push(
+        watch(dir, (_event, filename) => {
+          if (filename && names.has(filename)) scheduleReload();
+        }),
+      );
+    } catch (err) {
+      logger.warn(`Cannot watch ${dir}, hot reload available via SIGHUP only`, { error: String(err) });
+    }
+  }
+}
+
+function onSighup(): void {
+  // An explicit reload re-reads secret references too (rotated keys), not just the file.
+  clearSecretCache();
+  void reload("SIGHUP");
+}
+
+function scheduleReload(): void {
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null;
+    void reload("file changed");
+  }, DEBOUNCE_MS);
+}
+
+export function stopWatching(): void {
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = null;
+  for (const w of watchers) w.close();
+  watchers = [];
+  process.off("SIGHUP", onSighup);
+  watching = false;
+}
+
+/** Dotted paths of leaf values that differ — names only, so secrets never reach the log. */
+export function changedKeys(prev: object, next: object, prefix = ""): string[] {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  const changed: string[] = [];
+  for (const key of keys) {
+    const a = (prev as Record<string, unknown>)[key];
+    const b = (next as Record<string, unknown>)[key];
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(a) && isPlainObject(b)) {
+      changed.push(...changedKeys(a, b, path));
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changed.push(path);
+    }
+  }
+  return changed;
+}
+
+function isPlainObject(v: unknown): v is object {
+  return v != null && typeof v === "object" && !Array.isArray(v);
+}
@@ -0,0 +1,468 @@
+/** Declarative ProxyConfig schema — drives validation, provenance tracking and `config check`.
+ *  Every key the loader understands is declared here; anything else is reported, never ignored. */
+
+export type Field =
+  /** `secret`: masked in `config check`, and may be an env:/file:/exec: reference (config/secrets.ts). */
+  | { type: "string"; secret?: boolean }
+  /** Absolute URL; http(s) unless `protocols` says otherwise. */
+  | { type: "url"; protocols?: readonly string[] }
+  | { type: "number"; integer?: boolean; min?: number; max?: number }
+  | { type: "boolean" }
+  | { type: "enum"; values: readonly string[] }
+  /** Stored account, referenced by index in credentials.db or by email. */
+  | { type: "account" }
+  | { type: "list"; item: Field }
+  /** Mapping with user-chosen keys, e.g. profile names. */
+  | { type: "record"; value: Field }
+  | ObjectField;
+
+export interface ObjectField {
+  type: "object";
+  fields: Record<string, Field>;
+  /** Keys that must be present, e.g. `match` of a model alias. */
+  required?: readonly string[];
+}
+
+export interface ConfigIssue {
+  /** Dotted key path, e.g. "providers.anthropc". */
+  path: string;
+  message: string;
+  /** 1-based line in the config file, when it can be located. */
+  line?: number;
+}
+
+const bool: Field = { type: "boolean" };
+const accountList: Field = { type: "list", item: { type: "account" } };
+const duration: Field = { type: "number", integer: true, min: 0 };
+
+/** Tuning knobs of routing/policy.ts — valid globally under `routing:` and per pool under `routing.pools`. */
+const routingPolicy: ObjectField = {
+  type: "object",
+  fields: {
+    exhaustedCooldownMs: duration,
+    forbiddenCooldownMs: duration,
+    exhaustedThresholdS: duration,
+    exhaustedConsecutive: { type: "number", integer: true, min: 1, max: 100 },
+    maxRerouteAttempts: { type: "number", integer: true, min: 0, max: 20 },
+    // Bounded by the server's 255s idle timeout — longer waits would drop the client connection.
+    cachePreserveWaitMaxS: { type: "number", integer: true, min: 0, max: 255 },
+    burstWaitMaxMs: { type: "number", integer: true, min: 0, max: 255_000 },
+    affinityTtlMs: duration,
+    maxRetries: { type: "number", integer: true, min: 0, max: 10 },
+    retryDelayMs: { type: "number", integer: true, min: 0, max: 60_000 },
+    maxConcurrentPerAccount: { type: "number", integer: true, min: 0, max: 1000 },
+    maxConcurrentPerPool: { type: "number", integer: true, min: 0, max: 10_000 },
+    queueTimeoutMs: { type: "number", integer: true, min: 0, max: 255_000 },
+  },
+};
+
+const accountLists: Field = {
+  type: "object",
+  fields: { anthropic: accountList, codex: accountList, google: accountList },
+};
+
+/** One `rules:` entry — see routing/rules.ts. */
+const routingRule: ObjectField = {
+  type: "object",
+  fields: {
+    provider: { type: "enum", values: ["anthropic", "openai", "google"] },
+    model: { type: "string" },
+    thread: { type: "string" },
+    action: { type: "enum", values: ["local", "upstream", "reject"] },
+    accounts: accountLists,
+    exclude: accountLists,
+    message: { type: "string" },
+  },
+};
+
+/** Outbound proxies — SOCKS5 goes through proxy/socks.ts. */
+const proxyUrl: Field = { type: "url", protocols: ["http:", "https:", "socks5:", "socks5h:"] };
+const accountProxies: Field = { type: "record", value: proxyUrl };
+
+/** One `models.aliases` rule — see utils/models.ts. */
+const modelAlias: ObjectField = {
+  type: "object",
+  fields: {
+    match: { type: "string" },
+    to: { type: "string" },
+    provider: { type: "enum", values: ["anthropic", "codex", "google"] },
+    strategy: { type: "enum", values: ["gemini", "antigravity"] },
+    exclusive: bool,
+  },
+  required: ["match"],
+};
+
+/** Upstream budget limits for one window — see routing/budget.ts. */
+const budgetLimits: ObjectField = {
+  type: "object",
+  fields: { requests: { type: "number", integer: true, min: 0 }, tokens: { type: "number", integer: true, min: 0 } },
+};
+
+/** One `models.fallbacks` entry — see utils/models.ts. */
+const modelFallback: ObjectField = {
+  type: "object",
+  fields: {
+    match: { type: "string" },
+    to: {
+      type: "list",
+      item: {
+        type: "object",
+        fields: { provider: { type: "enum", values: ["codex", "google"] }, model: { type: "string" } },
+        required: ["provider", "model"],
+      },
+    },
+  },
+  required: ["match", "to"],
+};
+
+export const schema: ObjectField = {
+  type: "object",
+  fields: {
+    hostname: { type: "string" },
+    port: { type: "number", integer: true, min: 1, max: 65535 },
+    ampUpstreamUrl: { type: "url" },
+    ampApiKey: { type: "string", secret: true },
+    exaApiKey: { type: "string", secret: true },
+    logLevel: { type: "enum", values: ["debug", "info", "warn", "error"] },
+    drainTimeoutS: { type: "number", integer: true, min: 0, max: 3600 },
+    providers: {
+      type: "object",
+      fields: { anthropic: bool, codex: bool, google: bool },
+    },
+    /** Unix socket listener (0600), optionally with a loopback TCP shim in front of it. */
+    socket: {
+      type: "object",
+      fields: {
+        path: { type: "string" },
+        tcp: bool,
+        shimPort: { type: "number", integer: true, min: 1, max: 65535 },
+      },
+      required: ["path"],
+    },
+    /** HTTPS listener — cert/key files, or a generated local CA when both are unset. */
+    tls: {
+      type: "object",
+      fields: {
+        enabled: bool,
+        cert: { type: "string" },
+        key: { type: "string" },
+        hosts: { type: "list", item: { type: "string" } },
+      },
+    },
+    /** Client access control — tokens are managed with `ampcode-connector token`. */
+    auth: {
+      type: "object",
+      fields: { required: bool },
+    },
+    /** Restrict routing to these stored accounts per provider (all accounts when unset). */
+    accounts: accountLists,
+    routing: {
+      type: "object",
+      fields: {
+        ...routingPolicy.fields,
+        pools: {
+          type: "object",
+          fields: { anthropic: routingPolicy, codex: routingPolicy, google: routingPolicy },
+        },
+      },
+    },
+    /** Ordered per-request routing rules, first match wins. */
+    rules: { type: "list", item: routingRule },
+    /** Outbound proxy: global, per provider, per stored account (index or email). */
+    proxy: {
+      type: "object",
+      fields: {
+        url: proxyUrl,
+        providers: { type: "object", fields: { anthropic: proxyUrl, codex: proxyUrl, google: proxyUrl } },
+        accounts: {
+          type: "object",
+          fields: { anthropic: accountProxies, codex: accountProxies, google: accountProxies },
+        },
+      },
+    },
+    /** Requests answered with an error rather than sent to Amp upstream — see routing/local-only.ts. */
+    localOnly: {
+      type: "object",
+      fields: {
+        enabled: bool,
+        providers: { type: "list", item: { type: "enum", values: ["anthropic", "openai", "google"] } },
+        models: { type: "list", item: { type: "string" } },
+      },
+    },
+    upstreamBudget: {
+      type: "object",
+      fields: {
+        hourly: budgetLimits,
+        daily: budgetLimits,
+        models: {
+          type: "list",
+          item: {
+            type: "object",
+            fields: { match: { type: "string" }, hourly: budgetLimits, daily: budgetLimits },
+            required: ["match"],
+          },
+        },
+        onExhausted: { type: "enum", values: ["refuse", "wait"] },
+      },
+    },
+    /** Amp model name → provider model name rewrites, ahead of the built-in ones, and cross-pool fallbacks. */
+    models: {
+      type: "object",
+      fields: {
+        aliases: { type: "list", item: modelAlias },
+        fallbacks: { type: "list", item: modelFallback },
+        defaults: {
+          type: "object",
+          fields: { anthropic: { type: "string" }, codex: { type: "string" }, google: { type: "string" } },
+        },
+      },
+    },
+  },
+};
+
+/** The config file additionally holds named profiles, each overlaying any ProxyConfig field. */
+export const fileSchema: ObjectField = {
+  type: "object",
+  fields: { ...schema.fields, profiles: { type: "record", value: schema } },
+};
+
+/** Validate a parsed config document. Returns every issue found, not just the first. */
+export function validate(value: unknown, field: Field = schema, path = ""): ConfigIssue[] {
+  // Absent and explicitly-null keys fall back to defaults.
+  if (value === undefined || value === null) return [];
+
+  switch (field.type) {
+    case "object":
+      return validateObject(value, field, path);
+    case "string":
+      return typeof value === "string" ? [] : [typeIssue(path, "string", value)];
+    case "url":
+      return validateUrl(value, field, path);
+    case "boolean":
+      return typeof value === "boolean" ? [] : [typeIssue(path, "boolean", value)];
+    case "enum":
+      return typeof value === "string" && field.values.includes(value)
+        ? []
+        : [{ path, message: `expected one of ${field.values.join(", ")}, got ${describe(value)}` }];
+    case "number":
+      return validateNumber(value, field, path);
+    case "account":
+      return (typeof value === "number" && Number.isInteger(value) && value >= 0) ||
+        (typeof value === "string" && value.length > 0)
+        ? []
+        : [typeIssue(path, "account index or email", value)];
+    case "list":
+      if (!Array.isArray(value)) return [typeIssue(path, "list", value)];
+      return value.flatMap((item, i) => validate(item, field.item, join(path, String(i))));
+    case "record":
+      if (typeof value !== "object" || Array.isArray(value)) return [typeIssue(path, "mapping", value)];
+      return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) =>
+        validate(item, field.value, join(path, key)),
+      );
+  }
+}
+
+function validateObject(value: unknown, field: ObjectField, path: string): ConfigIssue[] {
+  if (typeof value !== "object" || Array.isArray(value)) return [typeIssue(path, "mapping", value)];
+
+  const issues: ConfigIssue[] = [];
+  const known = Object.keys(field.fields);
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    const childPath = join(path, key);
+    const childField = field.fields[key];
+    if (!childField) {
+      const suggestion = closest(key, known);
+      issues.push({ path: childPath, message: `unknown key${suggestion ? ` (did you mean "${suggestion}"?)` : ""}` });
+      continue;
+    }
+    issues.push(...validate(child, childField, childPath));
+  }
+  for (const key of field.required ?? []) {
+    const child = (value as Record<string, unknown>)[key];
+    if (child === undefined || child === null) issues.push({ path: join(path, key), message: "required key missing" });
+  }
+  return issues;
+}
+
+function validateNumber(value: unknown, field: Field & { type: "number" }, path: string): ConfigIssue[] {
+  const expected = field.integer ? "integer" : "number";
+  if (typeof value !== "number" || Number.isNaN(value)) return [typeIssue(path, expected, value)];
+  if (field.integer && !Number.isInteger(value)) return [typeIssue(path, expected, value)];
+  if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+    return [{ path, message: `must be ${range(field)}, got ${value}` }];
+  }
+  return [];
+}
+
+function validateUrl(value: unknown, field: Field & { type: "url" }, path: string): ConfigIssue[] {
+  if (typeof value !== "string") return [typeIssue(path, "URL string", value)];
+  const protocols = field.protocols ?? ["http:", "https:"];
+  try {
+    const { protocol } = new URL(value);
+    if (protocols.includes(protocol)) return [];
+  } catch {
+    // fall through
+  }
+  const expected = field.protocols ? `a ${protocols.map((p) => p.slice(0, -1)).join("/")} URL` : "an http(s) URL";
+  return [{ path, message: `expected ${expected}, got ${describe(value)}` }];
+}
+
+function range(field: { min?: number; max?: number }): string {
+  if (field.min !== undefined && field.max !== undefined) return `between ${field.min} and ${field.max}`;
+  if (field.min !== undefined) return `>= ${field.min}`;
+  return `<= ${field.max}`;
+}
+
+function typeIssue(path: string, expected: string, value: unknown): ConfigIssue {
+  return { path, message: `expected ${expected}, got ${describe(value)}` };
+}
+
+function describe(value: unknown): string {
+  if (typeof value === "string") return `string ${JSON.stringify(value)}`;
+  if (Array.isArray(value)) return "list";
+  if (typeof value === "object") return "mapping";
+  return `${typeof value} ${String(value)}`;
+}
+
+function join(prefix: string, key: string): string {
+  return prefix ? `${prefix}.${key}` : key;
+}
+
+/** One source of config values, e.g. the YAML file or the environment. */
+export interface Layer<S extends string> {
+  source: S;
+  values: unknown;
+}
+
+/** Merge layers leaf by leaf — the first layer (highest precedence) holding a value wins,
+ *  otherwise the default applies. Records where each effective value came from in `sources`. */
+export function merge<S extends string>(
+  layers: Layer<S>[],
+  defaults: unknown,
+  sources: Map<string, S | "default">,
+  field: Field = schema,
+  path = "",
+): unknown {
+  if (field.type === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(field.fields)) {
+      const value = merge(layers, defaults, sources, child, join(path, key));
+      if (value !== undefined) out[key] = value;
+    }
+    return out;
+  }
+
+  for (const layer of layers) {
+    const value = getPath(layer.values, path);
+    if (value !== undefined && value !== null && value !== "") {
+      sources.set(path, layer.source);
+      return value;
+    }
+  }
+
+  const fallback = getPath(defaults, path);
+  if (fallback !== undefined) sources.set(path, "default");
+  return fallback;
+}
+
+/** Every leaf field with its dotted path, in declaration order. A record has no fixed keys below it,
+ *  so it is one leaf holding the whole mapping — as merge() treats it. */
+export function leaves(field: Field = schema, prefix = ""): [string, Field][] {
+  if (field.type !== "object") return [[prefix, field]];
+  return Object.entries(field.fields).flatMap(([key, child]) => leaves(child, join(prefix, key)));
+}
+
+/** Read a dotted path from a nested object. */
+export function getPath(obj: unknown, path: string): unknown {
+  let current = obj;
+  for (const key of path.split(".")) {
+    if (current == null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/** Write a dotted path into a nested object, creating intermediate objects. */
+export function setPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split(".");
+  let current = obj;
+  for (const part of parts.slice(0, -1)) {
+    current[part] ??= {};
+    current = current[part] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1]!] = value;
+}
+
+/** Best-effort 1-based line of a dotted key path in block- or flow-style YAML.
+ *  Bun.YAML.parse exposes no positions, so this scans the text for each key in turn,
+ *  staying inside the parent's indentation block. Numeric segments match list items. */
+export function lineOf(text: string, path: string): number | undefined {
+  const lines = text.split("\n");
+  let from = 0;
+  let parentIndent = -1;
+  let found: number | undefined;
+
+  for (const key of path.split(".")) {
+    const index = /^\d+$/.test(key) ? Number(key) : -1;
+    const keyRe = new RegExp(`(^|[\\s{,])["']?${escapeRegExp(key)}["']?\\s*:`);
+    let itemIndent = -1;
+    let seen = 0;
+    let hit = -1;
+    for (let i = from; i < lines.length; i++) {
+      const current = lines[i]!;
+      const indent = current.search(/\S/);
+      const trimmed = current.trimStart();
+      if (indent === -1 || trimmed.startsWith("#")) continue;
+      // Block list items may sit at the parent key's own indentation.
+      const isItem = trimmed.startsWith("- ") && (itemIndent === -1 || indent === itemIndent);
+      if (found !== undefined && i > from && indent <= parentIndent && !(index >= 0 && isItem)) break;
+      if (index >= 0) {
+        if (i === from || !isItem) continue;
+        itemIndent = indent;
+        if (seen++ === index) {
+          hit = i;
+          break;
+        }
+      } else if (keyRe.test(current)) {
+        hit = i;
+        break;
+      }
+    }
+    if (hit === -1) break;
+    found = hit;
+    from = hit;
+    parentIndent = lines[hit]!.search(/\S/);
+  }
+
+  return found === undefined ? undefined : found + 1;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Closest known key within edit distance 2 — catches typos like "anthropc". */
+function closest(key: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const d = distance(key.toLowerCase(), candidate.toLowerCase());
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+function distance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
+}
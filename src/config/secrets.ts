@@ -0,0 +1,80 @@
+/** Secret references — any field declared `secret` in the schema may hold `env:NAME`,
+ *  `file:/path` or `exec:command` instead of the plaintext value. loadConfig() resolves them
+ *  after merging, so every layer (file, profile, AMPCC_* env) can use them. */
+
+import { homedir } from "node:os";
+
+const REF_RE = /^(env|file|exec):(.+)$/s;
+/** Resolved values are reused for this long; SIGHUP clears the cache to pick up rotated secrets sooner. */
+const CACHE_TTL_MS = 10 * 60_000;
+const EXEC_TIMEOUT_MS = 10_000;
+
+const cache = new Map<string, { value: string; at: number }>();
+
+export function isSecretRef(value: unknown): value is string {
+  return typeof value === "string" && REF_RE.test(value);
+}
+
+/** Resolve one reference to its value. Throws with a message fit for a config issue. */
+export async function resolveSecret(ref: string, execTimeoutMs = EXEC_TIMEOUT_MS): Promise<string> {
+  const cached = cache.get(ref);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.value;
+
+  const [, kind, target] = REF_RE.exec(ref) ?? [];
+  if (!kind || !target) throw new Error(`not a secret reference: ${ref}`);
+
+  let value: string;
+  switch (kind) {
+    case "env":
+      value = process.env[target.trim()] ?? "";
+      if (!value) throw new Error(`environment variable ${target.trim()} is not set`);
+      break;
+    case "file":
+      value = await readSecretFile(target.trim());
+      break;
+    default:
+      value = await runCommand(target.trim(), execTimeoutMs);
+  }
+
+  if (!value) throw new Error(`${kind}: reference resolved to an empty value`);
+  cache.set(ref, { value, at: Date.now() });
+  return value;
+}
+
+export function clearSecretCache(): void {
+  cache.clear();
+}
+
+async function readSecretFile(path: string): Promise<string> {
+  const resolved = path.startsWith("~/") ? `${homedir()}${path.slice(1)}` : path;
+  const file = Bun.file(resolved);
+  if (!(await file.exists())) throw new Error(`secret file ${resolved} does not exist`);
+  return (await file.text()).trim();
+}
+
+/** Run through the shell so references like `exec:pass show amp/key | head -1` work as typed. */
+async function runCommand(command: string, timeoutMs: number): Promise<string> {
+  const proc = Bun.spawn(["sh", "-c", command], { stdin: "ignore", stdout: "pipe", stderr: "pipe" });
+  let timer: Timer | undefined;
+  // Race rather than await exit alone: a child of the shell may keep the pipes open after the kill.
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      proc.kill();
+      reject(new Error(`command timed out after ${timeoutMs / 1000}s: ${command}`));
+    }, timeoutMs);
+  });
+
+  try {
+    const [stdout, stderr, code] = await Promise.race([
+      Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text(), proc.exited]),
+      timeout,
+    ]);
+    if (code !== 0) {
+      const detail = stderr.trim().split("\n")[0];
+      throw new Error(`command exited with ${code}: ${command}${detail ? ` (${detail})` : ""}`);
+    }
+    return stdout.trim();
+  } finally {
+    clearTimeout(timer);
+  }
+}
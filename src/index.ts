@@ -7,11 +7,20 @@ import type { OAuthConfig } from "./auth/oauth.ts";
 import * as oauth from "./auth/oauth.ts";
 import { bannerAd } from "./cli/ads.ts";
 import { line, s } from "./cli/ansi.ts";
+import { configCheck } from "./cli/config-check.ts";
+import { ctlCommand } from "./cli/ctl.ts";
+import { daemonCommand, preflight, startDaemon, writePidFile } from "./cli/daemon.ts";
 import { setup } from "./cli/setup.ts";
 import * as status from "./cli/status.ts";
+import { tokenCommand } from "./cli/tokens.ts";
 import { dashboard } from "./cli/tui.ts";
-import { loadConfig, type ProxyConfig } from "./config/config.ts";
+import { loadConfig, type ProxyConfig, selectProfile } from "./config/config.ts";
+import * as live from "./config/live.ts";
+import { DASHBOARD_PATH } from "./server/dashboard.ts";
 import { startServer } from "./server/server.ts";
+import { clientUrl, listensOnTcp, socketPath } from "./server/socket.ts";
+import { restoreState } from "./server/state.ts";
+import { scheme } from "./server/tls.ts";
 import { logger, setLogLevel } from "./utils/logger.ts";
 
 const providers: Record<string, OAuthConfig> = {
@@ -21,11 +30,17 @@ const providers: Record<string, OAuthConfig> = {
 };
 
 async function main(): Promise<void> {
-  const [command, arg] = process.argv.slice(2);
+  const args = process.argv.slice(2);
+  const profile = takeOption(args, "--profile");
+  if (profile) selectProfile(profile);
+  const daemon = takeFlag(args, "--daemon");
+  const [command, arg] = args;
 
   if (command === "setup") return setup();
 
   if (command === "login") {
+    // Token exchange and identity discovery honor the configured outbound proxy.
+    live.init(await loadConfig());
     if (!arg) return dashboard();
 
     const config = providers[arg];
@@ -37,15 +52,41 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (command === "config") {
+    if (arg === "check") return configCheck();
+    logger.error(`Unknown config command: ${arg ?? "(none)"}. Available: check`);
+    process.exit(1);
+  }
+
+  if (command === "token") return tokenCommand(args.slice(1));
+
+  if (command === "ctl") return ctlCommand(args.slice(1));
+
   if (command === "help" || command === "--help" || command === "-h") {
     usage();
     return;
   }
 
+  const lifecycle = command === "stop" || command === "restart" || command === "status";
+  if (lifecycle || daemon) setLogLevel("warn");
   const config = await loadConfig();
-  setLogLevel(config.logLevel);
-  startServer(config);
+  const childArgs = profile ? ["--profile", profile] : [];
+  if (lifecycle) {
+    return daemonCommand(command, config, childArgs, { check: args.includes("--check") });
+  }
+  if (daemon) return startDaemon(config, childArgs);
+
+  const problem = await preflight(config);
+  if (problem) {
+    logger.error(problem);
+    process.exit(1);
+  }
+  live.init(config);
+  restoreState();
+  await startServer();
+  writePidFile(config);
   startAutoRefresh();
+  live.startWatching();
   banner(config);
 
   // Non-blocking update check — runs in background after server starts
@@ -59,7 +100,10 @@ function banner(config: ProxyConfig): void {
 
   line();
   line(`  ${s.bold}ampcode-connector${s.reset}`);
-  line(`  ${s.dim}http://${config.hostname}:${config.port}${s.reset}`);
+  const unix = socketPath(config);
+  if (unix) line(`  ${s.dim}${unix}${s.reset}`);
+  if (listensOnTcp(config)) line(`  ${s.dim}${scheme(config)}://${config.hostname}:${config.port}${s.reset}`);
+  else if (config.socket?.shimPort) line(`  ${s.dim}http://127.0.0.1:${config.socket.shimPort} (shim)${s.reset}`);
   line();
 
   for (const p of providers) {
@@ -71,21 +115,67 @@ function banner(config: ProxyConfig): void {
   }
 
   line();
+  if (config.profile) line(`  ${s.dim}profile  → ${config.profile}${s.reset}`);
   line(`  ${s.dim}upstream → ${upstream}${s.reset}`);
+  const url = clientUrl(config);
+  if (url) line(`  ${s.dim}dashboard → ${url}${DASHBOARD_PATH}${s.reset}`);
   line();
   bannerAd();
   line();
 }
 
+/** Remove a boolean `--name` flag from args and report whether it was there. */
+function takeFlag(args: string[], name: string): boolean {
+  const index = args.indexOf(name);
+  if (index === -1) return false;
+  args.splice(index, 1);
+  return true;
+}
+
+/** Remove `--name value` or `--name=value` from args and return the value. */
+function takeOption(args: string[], name: string): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const current = args[i]!;
+    if (current === name) {
+      const value = args[i + 1];
+      if (!value || value.startsWith("--")) throw new Error(`${name} requires a value`);
+      args.splice(i, 2);
+      return value;
+    }
+    if (current.startsWith(`${name}=`)) {
+      args.splice(i, 1);
+      return current.slice(name.length + 1);
+    }
+  }
+  return undefined;
+}
+
 function usage(): void {
   line();
   line(`${s.bold}ampcode-connector${s.reset} ${s.dim}— proxy Amp CLI through local OAuth subscriptions${s.reset}`);
   line();
   line(`${s.bold}USAGE${s.reset}`);
   line(`  ${s.cyan}bun start${s.reset}              Start the proxy server`);
+  line(
+    `  ${s.cyan}bun start --daemon${s.reset}     Start it in the background ${s.dim}(logs to connector.log)${s.reset}`,
+  );
+  line(`  ${s.cyan}bun start stop${s.reset}         Stop the running proxy ${s.dim}(or restart it)${s.reset}`);
+  line(
+    `  ${s.cyan}bun start status${s.reset}       Health of the running proxy ${s.dim}(--check: exit 0/1/2)${s.reset}`,
+  );
   line(`  ${s.cyan}bun run setup${s.reset}          Configure Amp CLI to use this proxy`);
   line(`  ${s.cyan}bun run login${s.reset}          Interactive login dashboard`);
   line(`  ${s.cyan}bun run login <p>${s.reset}      Login to a specific provider`);
+  line(`  ${s.cyan}bun start config check${s.reset} Validate config and show effective values`);
+  line(
+    `  ${s.cyan}bun start token <cmd>${s.reset}  Manage client access tokens ${s.dim}(create, list, revoke)${s.reset}`,
+  );
+  line(
+    `  ${s.cyan}bun start ctl <cmd>${s.reset}    Inspect a running proxy ${s.dim}(accounts, clear, unpin, ...)${s.reset}`,
+  );
+  line();
+  line(`${s.bold}OPTIONS${s.reset}`);
+  line(`  ${s.cyan}--profile <name>${s.reset}       Use a named profile ${s.dim}(or AMPCC_PROFILE)${s.reset}`);
   line();
   line(`${s.bold}PROVIDERS${s.reset}`);
   line(`  anthropic     Claude Code ${s.dim}(Anthropic models)${s.reset}`);
@@ -94,6 +184,9 @@ function usage(): void {
   line();
   line(`${s.bold}CONFIG${s.reset}`);
   line(`  Edit ${s.cyan}config.yaml${s.reset} to customize port, providers, and log level.`);
+  line(
+    `  Changes are applied live ${s.dim}(or send SIGHUP)${s.reset}; listeners (hostname, port, socket, tls) need a restart.`,
+  );
   line();
 }
 
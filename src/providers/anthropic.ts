@@ -5,6 +5,7 @@ import { anthropic as config } from "../auth/configs.ts";
 import * as oauth from "../auth/oauth.ts";
 import * as store from "../auth/store.ts";
 import { ANTHROPIC_API_URL, CLAUDE_CODE_VERSION, claudeCodeBetas, filteredBetaFeatures } from "../constants.ts";
+import { proxyOption } from "../proxy/egress.ts";
 import type { ParsedBody } from "../server/body.ts";
 import type { Provider } from "./base.ts";
 import { denied, forward } from "./forward.ts";
@@ -17,8 +18,8 @@ function passthroughHeaders(originalHeaders: Headers): Record<string, string> {
   const out: Record<string, string> = {};
   for (const [k, v] of originalHeaders.entries()) {
     if (DROP_HEADERS.has(k)) continue;
-    // Drop amp-specific headers
-    if (k.startsWith("x-amp-")) continue;
+    // Drop amp- and connector-specific headers
+    if (k.startsWith("x-amp-") || k.startsWith("x-connector-")) continue;
     out[k] = v;
   }
   return out;
@@ -33,7 +34,7 @@ export const provider: Provider = {
 
   accountCount: () => oauth.accountCount(config),
 
-  async forward(sub, body, originalHeaders, rewrite, account = 0) {
+  async forward(sub, body, originalHeaders, rewrite, account = 0, signal) {
     const accessToken = await oauth.token(config, account);
     if (!accessToken) return denied("Anthropic");
 
@@ -46,8 +47,11 @@ export const provider: Provider = {
       body: fwdBody,
       streaming: body.stream,
       providerName: "Anthropic",
+      pool: "anthropic",
+      ...proxyOption("anthropic", account),
       rewrite,
       email: store.get("anthropic", account)?.email,
+      signal,
       headers: {
         // Client headers first (stainless, accept, content-type, anthropic-version, etc.)
         ...clientHeaders,
@@ -14,5 +14,7 @@ export interface Provider {
     headers: Headers,
     rewrite?: (data: string) => string,
     account?: number,
+    /** The client request's signal — aborts the upstream fetch when the client disconnects. */
+    signal?: AbortSignal,
   ): Promise<Response>;
 }
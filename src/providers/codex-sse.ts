@@ -263,11 +263,11 @@ const FORWARDED_HEADERS = [
 
 /** Wrap a Codex SSE response with the Responses → Chat Completions transformer.
  *  Strips Responses API event names so output looks like standard Chat Completions SSE. */
-export function transformCodexResponse(response: Response, ampModel: string): Response {
+export function transformCodexResponse(response: Response, ampModel: string, signal?: AbortSignal): Response {
   if (!response.body) return response;
 
   const transformer = createResponseTransformer(ampModel);
-  const body = transformStream(response.body, transformer);
+  const body = transformStream(response.body, transformer, signal);
 
   const headers: Record<string, string> = {
     "Content-Type": "text/event-stream",
@@ -499,7 +499,11 @@ export async function bufferCodexResponse(response: Response, ampModel: string):
 }
 
 /** Custom SSE transform that strips event names (Chat Completions doesn't use them). */
-function transformStream(source: ReadableStream<Uint8Array>, fn: (data: string) => string): ReadableStream<Uint8Array> {
+function transformStream(
+  source: ReadableStream<Uint8Array>,
+  fn: (data: string) => string,
+  signal?: AbortSignal,
+): ReadableStream<Uint8Array> {
   const decoder = new TextDecoder();
   const textEncoder = new TextEncoder();
   let buffer = "";
@@ -535,5 +539,6 @@ function transformStream(source: ReadableStream<Uint8Array>, fn: (data: string)
         controller.enqueue(textEncoder.encode("data: [DONE]\n\n"));
       },
     }),
+    { signal },
   );
 }
@@ -90,6 +90,7 @@ export function withStateCapture(
   stream: ReadableStream<Uint8Array>,
   expandedInput: unknown[],
   instructions: string | null,
+  signal?: AbortSignal,
 ): ReadableStream<Uint8Array> {
   const decoder = new TextDecoder();
   let buffer = "";
@@ -113,6 +114,7 @@ export function withStateCapture(
         }
       },
     }),
+    { signal },
   );
 }
 
@@ -15,8 +15,10 @@ import { codex as config } from "../auth/configs.ts";
 import * as oauth from "../auth/oauth.ts";
 import * as store from "../auth/store.ts";
 import { CODEX_BASE_URL, codexHeaders, codexHeaderValues, codexPathMap } from "../constants.ts";
+import { proxyOption } from "../proxy/egress.ts";
 import { fromBase64url } from "../utils/encoding.ts";
 import { logger } from "../utils/logger.ts";
+import { defaultModel } from "../utils/models.ts";
 import { apiError } from "../utils/responses.ts";
 import type { Provider } from "./base.ts";
 import { bufferCodexResponse, transformCodexResponse } from "./codex-sse.ts";
@@ -34,7 +36,7 @@ export const provider: Provider = {
 
   accountCount: () => oauth.accountCount(config),
 
-  async forward(sub, body, originalHeaders, rewrite, account = 0) {
+  async forward(sub, body, originalHeaders, rewrite, account = 0, signal) {
     // 1. AUTH
     const accessToken = await oauth.token(config, account);
     if (!accessToken) return denied("OpenAI Codex");
@@ -56,7 +58,7 @@ export const provider: Provider = {
       expandedInput,
       instructions,
     } = transformForCodex(expandedBody, promptCacheKey);
-    const ampModel = body.ampModel ?? "gpt-5.2";
+    const ampModel = body.ampModel ?? defaultModel("codex") ?? "";
 
     // 4. FORWARD
     const response = await forward({
@@ -64,8 +66,11 @@ export const provider: Provider = {
       body: codexBody,
       streaming: body.stream,
       providerName: "OpenAI Codex",
+      pool: "codex",
+      ...proxyOption("codex", account),
       rewrite: needsResponseTransform ? undefined : rewrite,
       email: store.get("codex", account)?.email,
+      signal,
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${accessToken}`,
@@ -87,12 +92,12 @@ export const provider: Provider = {
 
     // Chat Completions path — transform only, no state capture
     if (needsResponseTransform) {
-      return body.stream ? transformCodexResponse(response, ampModel) : bufferCodexResponse(response, ampModel);
+      return body.stream ? transformCodexResponse(response, ampModel, signal) : bufferCodexResponse(response, ampModel);
     }
 
     // Responses API path — capture state + format
     return body.stream
-      ? processStreamingResponse(response, expandedInput, instructions)
+      ? processStreamingResponse(response, expandedInput, instructions, signal)
       : processBufferedResponse(response, expandedInput, instructions);
   },
 };
@@ -137,10 +142,15 @@ function expandPreviousResponse(rawBody: string): string | null {
 // ---------------------------------------------------------------------------
 
 /** Streaming Responses API: pass through SSE + capture state from response.completed. */
-function processStreamingResponse(response: Response, expandedInput: unknown[], instructions: string | null): Response {
+function processStreamingResponse(
+  response: Response,
+  expandedInput: unknown[],
+  instructions: string | null,
+  signal?: AbortSignal,
+): Response {
   if (!response.body) return response;
 
-  const body = state.withStateCapture(response.body, expandedInput, instructions);
+  const body = state.withStateCapture(response.body, expandedInput, instructions, signal);
   return new Response(body, { status: response.status, headers: response.headers });
 }
 
@@ -1,5 +1,8 @@
 /** HTTP forwarding with transport-level retry, SSE proxying, and response rewriting. */
 
+import type { QuotaPool } from "../routing/cooldown.ts";
+import { policyFor } from "../routing/policy.ts";
+import { clientClosed, sleep } from "../utils/abort.ts";
 import { logger } from "../utils/logger.ts";
 import { apiError } from "../utils/responses.ts";
 import * as sse from "../utils/streaming.ts";
@@ -12,11 +15,15 @@ export interface ForwardOptions {
   providerName: string;
   rewrite?: (data: string) => string;
   email?: string;
+  /** Quota pool whose routing policy sets retry count and delay. */
+  pool?: QuotaPool;
+  /** Outbound proxy (fetch `proxy` option), from proxy/egress.ts. */
+  proxy?: string;
+  /** Client request's signal — aborts the fetch, retry waits and the SSE transform. */
+  signal?: AbortSignal;
 }
 
 const RETRYABLE_STATUS = new Set([408, 500, 502, 503, 504]);
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 500;
 
 const PASSTHROUGH_HEADERS = [
   "content-type",
@@ -38,31 +45,35 @@ function copyHeaders(source: Headers): Headers {
 
 export async function forward(opts: ForwardOptions): Promise<Response> {
   const requestBody = sanitizeForwardBody(opts);
+  const { maxRetries, retryDelayMs } = policyFor(opts.pool);
 
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
     let response: Response;
     try {
       response = await fetch(opts.url, {
+        proxy: opts.proxy,
         method: "POST",
         headers: opts.headers,
         body: requestBody,
+        signal: opts.signal,
       });
     } catch (err) {
-      if (attempt < MAX_RETRIES) {
-        logger.debug(`${opts.providerName} fetch error, retry ${attempt + 1}/${MAX_RETRIES}`, {
+      if (opts.signal?.aborted) return clientClosed();
+      if (attempt < maxRetries) {
+        logger.debug(`${opts.providerName} fetch error, retry ${attempt + 1}/${maxRetries}`, {
           error: String(err),
         });
-        await Bun.sleep(RETRY_DELAY_MS * (attempt + 1));
+        await sleep(retryDelayMs * (attempt + 1), opts.signal);
         continue;
       }
       return transportErrorResponse(opts.providerName, err);
     }
 
     // Retry on server errors (429 handled at routing layer)
-    if (RETRYABLE_STATUS.has(response.status) && attempt < MAX_RETRIES) {
+    if (RETRYABLE_STATUS.has(response.status) && attempt < maxRetries) {
       await response.text(); // consume body
-      logger.debug(`${opts.providerName} returned ${response.status}, retry ${attempt + 1}/${MAX_RETRIES}`);
-      await Bun.sleep(RETRY_DELAY_MS * (attempt + 1));
+      logger.debug(`${opts.providerName} returned ${response.status}, retry ${attempt + 1}/${maxRetries}`);
+      await sleep(retryDelayMs * (attempt + 1), opts.signal);
       continue;
     }
 
@@ -103,7 +114,7 @@ export async function forward(opts: ForwardOptions): Promise<Response> {
     if (isSSE) {
       const streamRewrite =
         opts.providerName === "OpenAI Codex" ? createCodexResponseBackfill(opts.rewrite) : opts.rewrite;
-      return sse.proxy(response, streamRewrite);
+      return sse.proxy(response, streamRewrite, opts.signal);
     }
 
     const headers = copyHeaders(response.headers);
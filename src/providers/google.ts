@@ -5,8 +5,11 @@ import { google as config } from "../auth/configs.ts";
 import * as oauth from "../auth/oauth.ts";
 import * as store from "../auth/store.ts";
 import { ANTIGRAVITY_DAILY_ENDPOINT, ANTIGRAVITY_DAILY_SANDBOX_ENDPOINT, CODE_ASSIST_ENDPOINT } from "../constants.ts";
+import { proxyOption } from "../proxy/egress.ts";
+import { clientClosed } from "../utils/abort.ts";
 import { buildUrl, maybeWrap, withUnwrap } from "../utils/code-assist.ts";
 import { logger } from "../utils/logger.ts";
+import { exclusiveStrategy, type GoogleStrategyName, resolveModel } from "../utils/models.ts";
 import * as path from "../utils/path.ts";
 import { apiError } from "../utils/responses.ts";
 import type { Provider } from "./base.ts";
@@ -19,10 +22,9 @@ const GOOGLE_CLIENT_METADATA = JSON.stringify({
 });
 
 interface GoogleStrategy {
-  name: string;
+  name: GoogleStrategyName;
   headers: Readonly<Record<string, string>>;
   endpoints: readonly string[];
-  modelMapper?: (model: string) => string;
   wrapOpts: {
     userAgent: "antigravity" | "pi-coding-agent";
     requestIdPrefix: "agent" | "pi";
@@ -44,14 +46,6 @@ const geminiStrategy: GoogleStrategy = {
   },
 };
 
-/** Antigravity uses different model names than what Amp CLI sends. */
-const antigravityModelMap: Record<string, string> = {
-  "gemini-3-flash-preview": "gemini-3-flash",
-  "gemini-3-pro-preview": "gemini-3-pro-high",
-  "gemini-3-pro-image-preview": "gemini-3.1-flash-image",
-  "gemini-3.1-flash-image-preview": "gemini-3.1-flash-image",
-};
-
 const antigravityStrategy: GoogleStrategy = {
   name: "antigravity",
   headers: {
@@ -60,7 +54,6 @@ const antigravityStrategy: GoogleStrategy = {
     "Client-Metadata": GOOGLE_CLIENT_METADATA,
   },
   endpoints: [ANTIGRAVITY_DAILY_ENDPOINT, ANTIGRAVITY_DAILY_SANDBOX_ENDPOINT, CODE_ASSIST_ENDPOINT],
-  modelMapper: (model: string) => antigravityModelMap[model] ?? model,
   wrapOpts: {
     userAgent: "antigravity",
     requestIdPrefix: "agent",
@@ -70,9 +63,6 @@ const antigravityStrategy: GoogleStrategy = {
 
 const strategies: readonly GoogleStrategy[] = [geminiStrategy, antigravityStrategy];
 
-/** Models that only work on the antigravity strategy. */
-const ANTIGRAVITY_ONLY_MODELS = new Set(["gemini-3-pro-image-preview", "gemini-3.1-flash-image-preview"]);
-
 const COOLDOWN_MS = 60_000;
 
 interface StrategyPreference {
@@ -92,11 +82,12 @@ function cooldownKey(account: number, strategy: GoogleStrategy): string {
 function getOrderedStrategies(account: number, model?: string): GoogleStrategy[] {
   const now = Date.now();
 
-  // Some models only work on antigravity — skip other strategies entirely
-  if (model && ANTIGRAVITY_ONLY_MODELS.has(model)) {
-    const cd = cooldowns.get(cooldownKey(account, antigravityStrategy));
+  // Some models only work on one strategy (e.g. image models on antigravity) — skip the others entirely
+  const only = model ? strategies.find((s) => s.name === exclusiveStrategy(model)) : undefined;
+  if (only) {
+    const cd = cooldowns.get(cooldownKey(account, only));
     if (cd && cd > now) return [];
-    return [antigravityStrategy];
+    return [only];
   }
 
   const pref = preferredStrategy.get(account);
@@ -122,6 +113,22 @@ function markFailure(account: number, strategy: GoogleStrategy): void {
   }
 }
 
+/** Strategy preference and per-strategy cooldowns of an account — for the admin API. */
+export function strategyState(account: number): { preferred?: string; cooldowns: Record<string, number> } {
+  const now = Date.now();
+  const pref = preferredStrategy.get(account);
+  const active: Record<string, number> = {};
+  for (const s of strategies) {
+    const until = cooldowns.get(cooldownKey(account, s));
+    if (until && until > now) active[s.name] = until;
+  }
+  return { preferred: pref && pref.until > now ? pref.strategy.name : undefined, cooldowns: active };
+}
+
+export function clearStrategyCooldowns(account: number): void {
+  for (const s of strategies) cooldowns.delete(cooldownKey(account, s));
+}
+
 /** Buffer an SSE response and merge all chunks into a single JSON response.
  *  Used when we force streamGenerateContent but the client expects non-streaming JSON.
  *  Accumulates all candidate parts across chunks (image inlineData may be in earlier chunks). */
@@ -203,7 +210,7 @@ export const provider: Provider = {
 
   accountCount: () => oauth.accountCount(config),
 
-  async forward(sub, body, _originalHeaders, rewrite, account = 0) {
+  async forward(sub, body, _originalHeaders, rewrite, account = 0, signal) {
     const accessToken = await oauth.token(config, account);
     if (!accessToken) return denied("Google");
 
@@ -240,7 +247,8 @@ export const provider: Provider = {
     let lastResponse: Response | null = null;
 
     for (const strategy of orderedStrategies) {
-      const model = strategy.modelMapper ? strategy.modelMapper(modelAction.model) : modelAction.model;
+      // Strategies name models differently — aliases scoped to the strategy apply here.
+      const model = resolveModel(modelAction.model, "google", strategy.name);
       const isImageModel = model.includes("image");
       const wrapOpts = isImageModel ? { ...strategy.wrapOpts, requestType: "image_gen" as const } : strategy.wrapOpts;
       const requestBody = maybeWrap(body.parsed, body.forwardBody, projectId, model, wrapOpts);
@@ -268,9 +276,14 @@ export const provider: Provider = {
             streaming: forceStreamNonStreaming ? true : body.stream,
             headers,
             providerName: `Google/${strategy.name}`,
+            pool: "google",
+            ...proxyOption("google", account),
             rewrite: unwrapThenRewrite,
             email,
+            signal,
           });
+          // The client is gone — neither the next strategy nor a cooldown for this one.
+          if (signal?.aborted) return clientClosed();
 
           // When we forced streaming but client expects JSON, buffer SSE and return last chunk
           if (forceStreamNonStreaming && response.ok && response.body) {
@@ -307,6 +320,7 @@ export const provider: Provider = {
           markSuccess(account, strategy);
           return response;
         } catch (err) {
+          if (signal?.aborted) return clientClosed();
           lastResponse = apiError(502, `Google/${strategy.name} endpoint failed: ${String(err)}`);
           logger.debug(`Google strategy=${strategy.name} endpoint error`, { error: String(err) });
         }
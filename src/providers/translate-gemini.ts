@@ -0,0 +1,161 @@
+/** Anthropic Messages ⇄ Gemini generateContent, for model fallback onto the Google pool.
+ *  Gemini names tool calls rather than numbering them, so tool results are matched to their
+ *  call by the tool_use id of the preceding assistant turn. Thinking parts are dropped. */
+
+import {
+  blocks,
+  type EventParser,
+  functionTools,
+  type MessagesRequest,
+  type OutputEvent,
+  resultText,
+  type StopReason,
+  systemText,
+  toolUseId,
+} from "./translate.ts";
+
+/** JSON Schema keywords Gemini's function declarations reject. */
+const UNSUPPORTED_SCHEMA_KEYS = new Set(["$schema", "$id", "$ref", "$defs", "definitions", "additionalProperties"]);
+
+/** Gemini 3 wants the thought signature of every earlier function call; calls made by another
+ *  model have none, and this documented placeholder skips the check. */
+const SKIP_THOUGHT_SIGNATURE = "skip_thought_signature_validator";
+
+interface GeminiChunk {
+  candidates?: { content?: { parts?: GeminiPart[] }; finishReason?: string }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number };
+}
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: { id?: string; name: string; args?: unknown };
+}
+
+/** Amp-style Google path for `model`, as the Google provider expects it. */
+export function geminiPath(model: string, stream: boolean): string {
+  return `/v1beta/models/${model}:${stream ? "streamGenerateContent?alt=sse" : "generateContent"}`;
+}
+
+/** generateContent request body. */
+export function toGemini(request: MessagesRequest): string {
+  const names = new Map<string, string>();
+  const contents: { role: "user" | "model"; parts: Record<string, unknown>[] }[] = [];
+
+  for (const message of request.messages) {
+    const parts: Record<string, unknown>[] = [];
+    for (const block of blocks(message.content)) {
+      if (block.type === "text" && block.text) {
+        parts.push({ text: block.text });
+      } else if (block.type === "image") {
+        const source = block.source as { type: string; media_type?: string; data?: string; url?: string };
+        parts.push(
+          source.type === "base64"
+            ? { inlineData: { mimeType: source.media_type, data: source.data } }
+            : { fileData: { fileUri: source.url } },
+        );
+      } else if (block.type === "tool_use") {
+        names.set(block.id as string, block.name as string);
+        parts.push({
+          functionCall: { name: block.name, args: block.input ?? {} },
+          thoughtSignature: SKIP_THOUGHT_SIGNATURE,
+        });
+      } else if (block.type === "tool_result") {
+        const output = resultText(block.content as string | undefined);
+        parts.push({
+          functionResponse: {
+            name: names.get(block.tool_use_id as string) ?? "",
+            response: block.is_error ? { error: output } : { content: output },
+          },
+        });
+      }
+    }
+    if (parts.length > 0) contents.push({ role: message.role === "assistant" ? "model" : "user", parts });
+  }
+
+  const system = systemText(request.system);
+  const declarations = functionTools(request.tools).map((tool) => ({
+    name: tool.name,
+    description: tool.description ?? "",
+    parameters: cleanSchema(tool.input_schema),
+  }));
+  const generationConfig = {
+    ...(request.max_tokens && { maxOutputTokens: request.max_tokens }),
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.top_p !== undefined && { topP: request.top_p }),
+    ...(request.stop_sequences?.length && { stopSequences: request.stop_sequences }),
+  };
+
+  return JSON.stringify({
+    contents,
+    ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+    ...(declarations.length > 0 && { tools: [{ functionDeclarations: declarations }] }),
+    ...(declarations.length > 0 && request.tool_choice && { toolConfig: toolConfig(request.tool_choice) }),
+    generationConfig,
+  });
+}
+
+function toolConfig(choice: NonNullable<MessagesRequest["tool_choice"]>): unknown {
+  switch (choice.type) {
+    case "any":
+      return { functionCallingConfig: { mode: "ANY" } };
+    case "tool":
+      return { functionCallingConfig: { mode: "ANY", allowedFunctionNames: [choice.name] } };
+    case "none":
+      return { functionCallingConfig: { mode: "NONE" } };
+    default:
+      return { functionCallingConfig: { mode: "AUTO" } };
+  }
+}
+
+function cleanSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(cleanSchema);
+  if (!schema || typeof schema !== "object") return schema;
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => !UNSUPPORTED_SCHEMA_KEYS.has(key))
+      .map(([key, value]) => [key, cleanSchema(value)]),
+  );
+}
+
+/** Parser for a Gemini response — streamed chunks or the whole JSON body. */
+export function geminiParser(): EventParser {
+  let calledTools = false;
+
+  return (data) => {
+    let chunk: GeminiChunk;
+    try {
+      chunk = JSON.parse(data) as GeminiChunk;
+    } catch {
+      return [];
+    }
+
+    const events: OutputEvent[] = [];
+    const candidate = chunk.candidates?.[0];
+    for (const part of candidate?.content?.parts ?? []) {
+      if (part.thought) continue;
+      if (part.text) events.push({ type: "text", text: part.text });
+      if (part.functionCall) {
+        calledTools = true;
+        events.push({ type: "tool_call", id: toolUseId(), name: part.functionCall.name });
+        events.push({ type: "tool_input", json: JSON.stringify(part.functionCall.args ?? {}) });
+      }
+    }
+    if (candidate?.finishReason) {
+      const meta = chunk.usageMetadata;
+      const stopReason: StopReason =
+        candidate.finishReason === "MAX_TOKENS" ? "max_tokens" : calledTools ? "tool_use" : "end_turn";
+      events.push({
+        type: "finish",
+        stopReason,
+        ...(meta && {
+          usage: {
+            input_tokens: meta.promptTokenCount ?? 0,
+            output_tokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+          },
+        }),
+      });
+    }
+    return events;
+  };
+}
@@ -0,0 +1,146 @@
+/** Anthropic Messages ⇄ OpenAI Chat Completions, for model fallback onto the Codex pool.
+ *  The Codex provider takes Chat Completions and answers in it (codex-sse.ts); this module
+ *  only bridges that format and Anthropic's. Thinking blocks are dropped both ways — their
+ *  signatures would not verify once the thread is back on Anthropic. */
+
+import {
+  blocks,
+  type EventParser,
+  functionTools,
+  type MessagesRequest,
+  type OutputEvent,
+  resultText,
+  type StopReason,
+  systemText,
+} from "./translate.ts";
+
+const STOP_REASONS: Record<string, StopReason> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  function_call: "tool_use",
+  content_filter: "end_turn",
+};
+
+interface ChatChoice {
+  delta?: ChatMessage;
+  message?: ChatMessage;
+  finish_reason?: string | null;
+}
+
+interface ChatMessage {
+  content?: string | null;
+  tool_calls?: { index?: number; id?: string; function?: { name?: string; arguments?: string } }[];
+}
+
+/** Chat Completions request body for `model`. */
+export function toChatCompletions(request: MessagesRequest, model: string): string {
+  const messages: Record<string, unknown>[] = [];
+  const system = systemText(request.system);
+  if (system) messages.push({ role: "system", content: system });
+
+  for (const message of request.messages) {
+    const content = blocks(message.content);
+    if (message.role === "assistant") {
+      const text = content.flatMap((b) => (b.type === "text" ? [b.text as string] : [])).join("");
+      const toolCalls = content.flatMap((b) =>
+        b.type === "tool_use"
+          ? [{ id: b.id, type: "function", function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) } }]
+          : [],
+      );
+      if (!text && toolCalls.length === 0) continue;
+      messages.push({
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      });
+      continue;
+    }
+
+    // Tool results become `tool` messages, which must directly follow the assistant's tool calls.
+    const parts: Record<string, unknown>[] = [];
+    for (const block of content) {
+      if (block.type === "tool_result") {
+        const output = resultText(block.content as string | undefined);
+        messages.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `Error: ${output}` : output,
+        });
+      } else if (block.type === "text") {
+        parts.push({ type: "text", text: block.text });
+      } else if (block.type === "image") {
+        const source = block.source as { type: string; media_type?: string; data?: string; url?: string };
+        const url = source.type === "base64" ? `data:${source.media_type};base64,${source.data}` : source.url;
+        parts.push({ type: "image_url", image_url: { url } });
+      }
+    }
+    if (parts.length > 0) messages.push({ role: "user", content: parts });
+  }
+
+  const tools = functionTools(request.tools).map((tool) => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description ?? "", parameters: tool.input_schema },
+  }));
+
+  return JSON.stringify({
+    model,
+    messages,
+    stream: request.stream === true,
+    ...(tools.length > 0 && { tools }),
+    ...(tools.length > 0 && request.tool_choice && { tool_choice: toolChoice(request.tool_choice) }),
+  });
+}
+
+function toolChoice(choice: NonNullable<MessagesRequest["tool_choice"]>): unknown {
+  switch (choice.type) {
+    case "any":
+      return "required";
+    case "tool":
+      return { type: "function", function: { name: choice.name } };
+    case "none":
+      return "none";
+    default:
+      return "auto";
+  }
+}
+
+/** Parser for a Chat Completions response — streamed chunks or the whole JSON body. */
+export function chatCompletionsParser(): EventParser {
+  const open = new Set<number>();
+
+  return (data) => {
+    if (!data || data === "[DONE]") return [];
+    let chunk: { choices?: ChatChoice[]; usage?: { prompt_tokens?: number; completion_tokens?: number } };
+    try {
+      chunk = JSON.parse(data) as typeof chunk;
+    } catch {
+      return [];
+    }
+
+    const events: OutputEvent[] = [];
+    const choice = chunk.choices?.[0];
+    const message = choice?.delta ?? choice?.message;
+    if (message?.content) events.push({ type: "text", text: message.content });
+    for (const [position, call] of (message?.tool_calls ?? []).entries()) {
+      const index = call.index ?? position;
+      if (!open.has(index) && call.function?.name) {
+        open.add(index);
+        events.push({ type: "tool_call", id: call.id ?? `call_${index}`, name: call.function.name });
+      }
+      if (call.function?.arguments) events.push({ type: "tool_input", json: call.function.arguments });
+    }
+    if (choice?.finish_reason) {
+      const usage = chunk.usage && {
+        input_tokens: chunk.usage.prompt_tokens ?? 0,
+        output_tokens: chunk.usage.completion_tokens ?? 0,
+      };
+      events.push({
+        type: "finish",
+        stopReason: STOP_REASONS[choice.finish_reason] ?? "end_turn",
+        ...(usage && { usage }),
+      });
+    }
+    return events;
+  };
+}
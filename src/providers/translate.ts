@@ -0,0 +1,281 @@
+/** Anthropic Messages side of cross-provider model fallback (routing/fallback.ts).
+ *
+ *  A request Amp sent in Anthropic Messages format is translated for another provider by
+ *  translate-openai.ts or translate-gemini.ts; their responses are parsed into the neutral
+ *  `OutputEvent`s below and re-emitted here as Anthropic Messages — SSE events or one JSON
+ *  message — under the model name Amp asked for. */
+
+import { randomBytes } from "node:crypto";
+import * as sse from "../utils/streaming.ts";
+
+// ---------------------------------------------------------------------------
+// Request shape — the parts translators read
+// ---------------------------------------------------------------------------
+
+export interface MessagesRequest {
+  model?: string;
+  system?: string | TextBlock[];
+  messages: Message[];
+  tools?: Tool[];
+  tool_choice?: { type: "auto" | "any" | "tool" | "none"; name?: string };
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+}
+
+export interface Message {
+  role: "user" | "assistant";
+  content: string | ContentBlock[];
+}
+
+export interface TextBlock {
+  type: "text";
+  text: string;
+}
+
+export type ContentBlock =
+  | TextBlock
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string } }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content?: string | ContentBlock[]; is_error?: boolean }
+  /** thinking, redacted_thinking, server tool blocks, ... — dropped in translation. */
+  | { type: string; [key: string]: unknown };
+
+export interface Tool {
+  name: string;
+  description?: string;
+  /** Absent on Anthropic server tools (web search, ...), which have no equivalent elsewhere. */
+  input_schema?: Record<string, unknown>;
+}
+
+export function parseRequest(raw: string): MessagesRequest | null {
+  try {
+    const parsed = JSON.parse(raw) as MessagesRequest;
+    return Array.isArray(parsed.messages) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function systemText(system: MessagesRequest["system"]): string {
+  if (typeof system === "string") return system;
+  return (system ?? []).map((block) => block.text).join("\n\n");
+}
+
+export function blocks(content: Message["content"]): ContentBlock[] {
+  return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+/** Text of a tool_result's content — other providers take tool output as a string. */
+export function resultText(content: string | ContentBlock[] | undefined): string {
+  if (typeof content === "string") return content;
+  return (content ?? [])
+    .filter((block): block is TextBlock => block.type === "text")
+    .map((block) => block.text)
+    .join("\n");
+}
+
+export type FunctionTool = Tool & { input_schema: Record<string, unknown> };
+
+/** Tool definitions other providers can call — Anthropic server tools are left out. */
+export function functionTools(tools: Tool[] | undefined): FunctionTool[] {
+  return (tools ?? []).filter((tool): tool is FunctionTool => tool.input_schema !== undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Response — neutral events → Anthropic Messages
+// ---------------------------------------------------------------------------
+
+export type StopReason = "end_turn" | "max_tokens" | "tool_use" | "stop_sequence";
+
+export interface Usage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export type OutputEvent =
+  | { type: "text"; text: string }
+  /** Opens a tool_use block; its input follows as `tool_input` fragments. */
+  | { type: "tool_call"; id: string; name: string }
+  | { type: "tool_input"; json: string }
+  | { type: "finish"; stopReason: StopReason; usage?: Usage };
+
+/** Parses one SSE `data:` payload (or a whole JSON body) of the target provider. */
+export type EventParser = (data: string) => OutputEvent[];
+
+export function toolUseId(): string {
+  return `toolu_${randomBytes(12).toString("hex")}`;
+}
+
+/** Builds Anthropic Messages SSE events from OutputEvents, one content block at a time. */
+class MessageWriter {
+  private index = -1;
+  private open: "text" | "tool_use" | null = null;
+  private finished = false;
+
+  constructor(private readonly model: string) {}
+
+  start(): string {
+    return event("message_start", {
+      type: "message_start",
+      message: {
+        id: `msg_${randomBytes(12).toString("hex")}`,
+        type: "message",
+        role: "assistant",
+        model: this.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  }
+
+  write(ev: OutputEvent): string {
+    if (this.finished) return "";
+    switch (ev.type) {
+      case "text":
+        if (!ev.text) return "";
+        return (
+          this.openBlock("text", { type: "text", text: "" }) +
+          event("content_block_delta", {
+            type: "content_block_delta",
+            index: this.index,
+            delta: { type: "text_delta", text: ev.text },
+          })
+        );
+      case "tool_call":
+        return this.openBlock("tool_use", { type: "tool_use", id: ev.id, name: ev.name, input: {} });
+      case "tool_input":
+        if (this.open !== "tool_use" || !ev.json) return "";
+        return event("content_block_delta", {
+          type: "content_block_delta",
+          index: this.index,
+          delta: { type: "input_json_delta", partial_json: ev.json },
+        });
+      case "finish":
+        this.finished = true;
+        return (
+          this.closeBlock() +
+          event("message_delta", {
+            type: "message_delta",
+            delta: { stop_reason: ev.stopReason, stop_sequence: null },
+            usage: ev.usage ?? { output_tokens: 0 },
+          }) +
+          event("message_stop", { type: "message_stop" })
+        );
+    }
+  }
+
+  /** Close out a stream that ended without a finish event. */
+  end(): string {
+    return this.finished ? "" : this.write({ type: "finish", stopReason: "end_turn" });
+  }
+
+  private openBlock(type: "text" | "tool_use", block: Record<string, unknown>): string {
+    if (this.open === type && type === "text") return "";
+    const closed = this.closeBlock();
+    this.index++;
+    this.open = type;
+    return (
+      closed + event("content_block_start", { type: "content_block_start", index: this.index, content_block: block })
+    );
+  }
+
+  private closeBlock(): string {
+    if (this.index === -1 || this.open === null) return "";
+    this.open = null;
+    return event("content_block_stop", { type: "content_block_stop", index: this.index });
+  }
+}
+
+function event(name: string, data: unknown): string {
+  return sse.encode({ event: name, data: JSON.stringify(data) });
+}
+
+const encoder = new TextEncoder();
+
+/** Re-emit the target provider's SSE stream as an Anthropic Messages stream. */
+export function translateStream(response: Response, parse: EventParser, model: string, signal?: AbortSignal): Response {
+  if (!response.body) return response;
+  const decoder = new TextDecoder();
+  const writer = new MessageWriter(model);
+  let buffer = "";
+  let started = false;
+
+  const emit = (controller: TransformStreamDefaultController<Uint8Array>, complete: string) => {
+    let out = started ? "" : writer.start();
+    started = true;
+    for (const chunk of sse.parse(complete)) {
+      for (const ev of parse(chunk.data)) out += writer.write(ev);
+    }
+    if (out) controller.enqueue(encoder.encode(out));
+  };
+
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(raw, controller) {
+        buffer += decoder.decode(raw, { stream: true }).replaceAll("\r\n", "\n");
+        const boundary = buffer.lastIndexOf("\n\n");
+        if (boundary === -1) return;
+        emit(controller, buffer.slice(0, boundary + 2));
+        buffer = buffer.slice(boundary + 2);
+      },
+      flush(controller) {
+        emit(controller, buffer);
+        controller.enqueue(encoder.encode(writer.end()));
+      },
+    }),
+    { signal },
+  );
+
+  return new Response(body, {
+    status: response.status,
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" },
+  });
+}
+
+/** Turn the target provider's JSON response into one Anthropic Messages JSON response. */
+export async function translateMessage(response: Response, parse: EventParser, model: string): Promise<Response> {
+  const content: Record<string, unknown>[] = [];
+  const inputs = new Map<Record<string, unknown>, string>();
+  let stopReason: StopReason = "end_turn";
+  let usage: Usage = { input_tokens: 0, output_tokens: 0 };
+
+  for (const ev of parse(await response.text())) {
+    const last = content[content.length - 1];
+    if (ev.type === "text" && ev.text) {
+      if (last?.type === "text") last.text += ev.text;
+      else content.push({ type: "text", text: ev.text });
+    } else if (ev.type === "tool_call") {
+      const block = { type: "tool_use", id: ev.id, name: ev.name, input: {} };
+      content.push(block);
+      inputs.set(block, "");
+    } else if (ev.type === "tool_input" && last && inputs.has(last)) {
+      inputs.set(last, inputs.get(last) + ev.json);
+    } else if (ev.type === "finish") {
+      stopReason = ev.stopReason;
+      if (ev.usage) usage = ev.usage;
+    }
+  }
+  for (const [block, json] of inputs) {
+    try {
+      block.input = json ? JSON.parse(json) : {};
+    } catch {
+      block.input = {};
+    }
+  }
+
+  return Response.json({
+    id: `msg_${randomBytes(12).toString("hex")}`,
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    stop_reason: stopReason,
+    stop_sequence: null,
+    usage,
+  });
+}
@@ -0,0 +1,47 @@
+/** Outbound proxy selection — the `proxy` config block. Most specific wins:
+ *  stored account → provider → global. Amp upstream and the web tools use the global proxy.
+ *  Installed from config at startup and on every reload; read per outbound request. */
+
+import type { ProviderName } from "../auth/store.ts";
+import * as store from "../auth/store.ts";
+import { bridgeFor, retainBridges } from "./socks.ts";
+
+export interface EgressConfig {
+  /** Proxy for all outbound traffic: http://, https://, socks5:// or socks5h://, credentials in the userinfo. */
+  url?: string;
+  providers?: Partial<Record<ProviderName, string>>;
+  /** Keyed by stored account index or email. */
+  accounts?: Partial<Record<ProviderName, Record<string, string>>>;
+}
+
+let egress: EgressConfig = {};
+
+export function setEgressProxy(config: EgressConfig | undefined): void {
+  egress = config ?? {};
+  const urls = [
+    egress.url,
+    ...Object.values(egress.providers ?? {}),
+    ...Object.values(egress.accounts ?? {}).flatMap((byAccount) => Object.values(byAccount ?? {})),
+  ];
+  retainBridges(new Set(urls.filter((url): url is string => !!url)));
+}
+
+/** Configured proxy URL for traffic on behalf of a provider (and account), if any. */
+export function proxyFor(provider?: ProviderName, account?: number): string | undefined {
+  if (provider && account !== undefined) {
+    const byAccount = egress.accounts?.[provider];
+    const byIndex = byAccount?.[String(account)];
+    if (byIndex) return byIndex;
+    const email = byAccount && store.get(provider, account)?.email;
+    if (email && byAccount[email]) return byAccount[email];
+  }
+  return (provider && egress.providers?.[provider]) || egress.url;
+}
+
+/** fetch() option routing a request through the selected proxy — spread into the RequestInit.
+ *  SOCKS proxies go through a local bridge since fetch only speaks HTTP proxies. */
+export function proxyOption(provider?: ProviderName, account?: number): { proxy?: string } {
+  const url = proxyFor(provider, account);
+  if (!url) return {};
+  return { proxy: url.startsWith("socks") ? bridgeFor(url) : url };
+}
@@ -1,6 +1,9 @@
 /** Reverse proxy to ampcode.com for non-intercepted routes and fallback. */
 
+import { TOKEN_PREFIX } from "../auth/tokens.ts";
+import { clientClosed } from "../utils/abort.ts";
 import { logger } from "../utils/logger.ts";
+import { proxyOption } from "./egress.ts";
 
 export async function forward(request: Request, ampUpstreamUrl: string, ampApiKey?: string): Promise<Response> {
   const url = new URL(request.url);
@@ -8,6 +11,17 @@ export async function forward(request: Request, ampUpstreamUrl: string, ampApiKe
 
   const upstreamHost = new URL(ampUpstreamUrl).host;
   const headers = new Headers(request.headers);
+  // Connector credentials are for this process only — strip them whether or not auth.required
+  // checked them. An `ampcc_` Authorization is a connector token, not Amp's key.
+  headers.delete("x-connector-token");
+  headers.delete("proxy-authorization");
+  if (
+    headers
+      .get("authorization")
+      ?.replace(/^Bearer\s+/i, "")
+      .startsWith(TOKEN_PREFIX)
+  )
+    headers.delete("authorization");
   if (ampApiKey) headers.set("Authorization", `Bearer ${ampApiKey}`);
   headers.set("Host", upstreamHost);
 
@@ -15,11 +29,13 @@ export async function forward(request: Request, ampUpstreamUrl: string, ampApiKe
 
   try {
     const response = await fetch(upstreamUrl.toString(), {
+      ...proxyOption(),
       method: request.method,
       headers,
       redirect: "manual",
       body: request.method !== "GET" && request.method !== "HEAD" ? request.body : undefined,
       duplex: "half" as const,
+      signal: request.signal,
     });
 
     const responseHeaders = new Headers(response.headers);
@@ -32,6 +48,7 @@ export async function forward(request: Request, ampUpstreamUrl: string, ampApiKe
       headers: responseHeaders,
     });
   } catch (err) {
+    if (request.signal.aborted) return clientClosed();
     logger.error("Upstream proxy error", { error: String(err) });
     return Response.json({ error: "Failed to connect to Amp upstream", details: String(err) }, { status: 502 });
   }
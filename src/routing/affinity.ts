@@ -4,18 +4,22 @@
  *  independent affinities for different providers (e.g. anthropic AND google). */
 
 import type { QuotaPool } from "./cooldown.ts";
+import { policyFor } from "./policy.ts";
 
-interface AffinityEntry {
+export interface AffinityEntry {
   pool: QuotaPool;
   account: number;
   lastUsedAt: number;
 }
 
-/** Affinity expires after 2 hours of inactivity. */
-const TTL_MS = 2 * 3600_000;
 /** Cleanup stale entries every 10 minutes. */
 const CLEANUP_INTERVAL_MS = 10 * 60_000;
 
+/** Affinity expires after the pool's affinityTtlMs of inactivity (2 hours by default). */
+function isExpired(entry: AffinityEntry, now: number): boolean {
+  return now - entry.lastUsedAt > policyFor(entry.pool).affinityTtlMs;
+}
+
 class AffinityStore {
   private map = new Map<string, AffinityEntry>();
   private counts = new Map<string, number>();
@@ -51,7 +55,7 @@ class AffinityStore {
     const k = this.key(threadId, ampProvider);
     const entry = this.map.get(k);
     if (!entry) return undefined;
-    if (Date.now() - entry.lastUsedAt > TTL_MS) {
+    if (isExpired(entry, Date.now())) {
       this.removeExpired(k, entry);
       return undefined;
     }
@@ -89,6 +93,29 @@ class AffinityStore {
     }
   }
 
+  /** Break every provider's affinity for a thread. Returns how many pins were removed. */
+  clearThread(threadId: string): number {
+    let removed = 0;
+    for (const [k, entry] of this.map) {
+      if (!k.startsWith(`${threadId}\0`)) continue;
+      this.decCount(entry.pool, entry.account);
+      this.map.delete(k);
+      removed++;
+    }
+    return removed;
+  }
+
+  /** Live pins as (thread, provider, pool, account), for the admin API. */
+  list(): { threadId: string; ampProvider: string; pool: QuotaPool; account: number; lastUsedAt: number }[] {
+    const now = Date.now();
+    return [...this.map]
+      .filter(([, entry]) => !isExpired(entry, now))
+      .map(([k, entry]) => {
+        const [threadId = "", ampProvider = ""] = k.split("\0");
+        return { threadId, ampProvider, ...entry };
+      });
+  }
+
   /** Count active threads pinned to a specific (pool, account). */
   activeCount(pool: QuotaPool, account: number): number {
     return this.counts.get(this.countKey(pool, account)) ?? 0;
@@ -100,13 +127,29 @@ class AffinityStore {
     this.cleanupTimer = setInterval(() => {
       const now = Date.now();
       for (const [k, entry] of this.map) {
-        if (now - entry.lastUsedAt > TTL_MS) {
+        if (isExpired(entry, now)) {
           this.removeExpired(k, entry);
         }
       }
     }, CLEANUP_INTERVAL_MS);
   }
 
+  /** Live entries by internal key, for persisting across restarts. */
+  dump(): Record<string, AffinityEntry> {
+    const now = Date.now();
+    return Object.fromEntries([...this.map].filter(([, entry]) => !isExpired(entry, now)));
+  }
+
+  /** Restore dumped entries, skipping those that expired meanwhile. */
+  load(saved: Record<string, AffinityEntry>): void {
+    const now = Date.now();
+    for (const [k, entry] of Object.entries(saved)) {
+      if (isExpired(entry, now) || this.map.has(k)) continue;
+      this.map.set(k, { ...entry });
+      this.incCount(entry.pool, entry.account);
+    }
+  }
+
   reset(): void {
     this.map.clear();
     this.counts.clear();
@@ -0,0 +1,192 @@
+/** Upstream budget — caps how many requests and estimated tokens go to Amp upstream per hour and per
+ *  day (clock hours, local midnight), globally and per model glob. Usage is saved to credentials.db
+ *  on every change (server/state.ts), so a restart or crash does not reset it. A request counts from
+ *  the moment it is sent, and is given back if Amp upstream fails it or the client goes away. Once a
+ *  budget is spent, requests that would go upstream are refused (or held — see `onExhausted`) until
+ *  its window resets. */
+
+import { globToRegExp } from "../utils/glob.ts";
+
+export type BudgetWindow = "hourly" | "daily";
+
+export interface BudgetLimits {
+  requests?: number;
+  /** Estimated from request size — see estimateTokens(). */
+  tokens?: number;
+}
+
+type WindowLimits = Partial<Record<BudgetWindow, BudgetLimits>>;
+
+export interface ModelBudget extends WindowLimits {
+  /** Amp model name glob; the first matching entry counts a request, on top of the global budget. */
+  match: string;
+}
+
+export interface UpstreamBudgetConfig extends WindowLimits {
+  models?: ModelBudget[];
+  /** Once spent: `refuse` until the budget resets (default), or `wait` — hold the request until a
+   *  local account comes off cooldown (and answer from it) or the budget resets, whichever is first.
+   *  Requests with no local account to wait for are refused either way. */
+  onExhausted?: "refuse" | "wait";
+}
+
+/** Scope of the global budget; model budgets are scoped by their glob. */
+export const GLOBAL_SCOPE = "*";
+
+const WINDOWS: readonly BudgetWindow[] = ["hourly", "daily"];
+
+interface Usage {
+  /** Window start (epoch ms). */
+  start: number;
+  requests: number;
+  tokens: number;
+}
+
+export interface BudgetStatus {
+  scope: string;
+  window: BudgetWindow;
+  requests?: { used: number; limit: number };
+  tokens?: { used: number; limit: number };
+  resetsAt: number;
+}
+
+/** A spent budget — what blocked the request and when it frees up. */
+export interface SpentBudget {
+  scope: string;
+  window: BudgetWindow;
+  kind: "requests" | "tokens";
+  limit: number;
+  resetsAt: number;
+}
+
+/** Whether any limit is set — the config loader fills unset sections with empty objects. */
+export function hasLimits(config: UpstreamBudgetConfig | undefined): config is UpstreamBudgetConfig {
+  const set = (limits: WindowLimits) =>
+    WINDOWS.some((w) => limits[w]?.requests !== undefined || limits[w]?.tokens !== undefined);
+  return !!config && (set(config) || (config.models ?? []).some(set));
+}
+
+/** Rough token count of a request body — about four bytes per token. */
+export function estimateTokens(raw: string): number {
+  return Math.ceil(raw.length / 4);
+}
+
+export function windowStart(window: BudgetWindow, now = Date.now()): number {
+  const date = new Date(now);
+  if (window === "daily") date.setHours(0, 0, 0, 0);
+  else date.setMinutes(0, 0, 0);
+  return date.getTime();
+}
+
+export function windowEnd(window: BudgetWindow, start: number): number {
+  const date = new Date(start);
+  if (window === "daily") date.setDate(date.getDate() + 1);
+  else date.setHours(date.getHours() + 1);
+  return date.getTime();
+}
+
+class BudgetTracker {
+  /** `${scope}|${window}` → usage in the current window. */
+  private usage = new Map<string, Usage>();
+
+  private current(scope: string, window: BudgetWindow): Usage {
+    const key = `${scope}|${window}`;
+    const start = windowStart(window);
+    let usage = this.usage.get(key);
+    if (!usage || usage.start !== start) {
+      usage = { start, requests: 0, tokens: 0 };
+      this.usage.set(key, usage);
+    }
+    return usage;
+  }
+
+  /** Budgets a request for `model` counts against: the global one and the first matching model entry. */
+  private scopes(config: UpstreamBudgetConfig, model: string | null): [string, WindowLimits][] {
+    const scopes: [string, WindowLimits][] = [[GLOBAL_SCOPE, config]];
+    const entry = model ? config.models?.find((m) => globToRegExp(m.match).test(model)) : undefined;
+    if (entry) scopes.push([entry.match, entry]);
+    return scopes;
+  }
+
+  /** The first spent budget a request for `model` would exceed, or null when it may go upstream. */
+  spent(config: UpstreamBudgetConfig | undefined, model: string | null): SpentBudget | null {
+    if (!config) return null;
+    for (const [scope, limits] of this.scopes(config, model)) {
+      for (const window of WINDOWS) {
+        const usage = this.current(scope, window);
+        for (const kind of ["requests", "tokens"] as const) {
+          const limit = limits[window]?.[kind];
+          if (limit !== undefined && usage[kind] >= limit) {
+            return { scope, window, kind, limit, resetsAt: windowEnd(window, usage.start) };
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  /** Count a request against its budgets before it goes upstream, so concurrent requests see it
+   *  while it is in flight. Call right after spent() with no await between, and call the returned
+   *  release if the request fails or is abandoned. */
+  reserve(config: UpstreamBudgetConfig | undefined, model: string | null, tokens: number): () => void {
+    if (!config) return () => {};
+    const counted = this.scopes(config, model).flatMap(([scope]) => WINDOWS.map((w) => this.current(scope, w)));
+    for (const usage of counted) {
+      usage.requests++;
+      usage.tokens += tokens;
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      for (const usage of counted) {
+        usage.requests--;
+        usage.tokens -= tokens;
+      }
+    };
+  }
+
+  /** Usage against every configured limit — for /status, `status` and the login dashboard. */
+  snapshot(config: UpstreamBudgetConfig | undefined): BudgetStatus[] {
+    if (!config) return [];
+    const scopes: [string, WindowLimits][] = [
+      [GLOBAL_SCOPE, config],
+      ...(config.models ?? []).map((m): [string, WindowLimits] => [m.match, m]),
+    ];
+    const result: BudgetStatus[] = [];
+    for (const [scope, limits] of scopes) {
+      for (const window of WINDOWS) {
+        const limit = limits[window];
+        if (limit?.requests === undefined && limit?.tokens === undefined) continue;
+        const usage = this.current(scope, window);
+        result.push({
+          scope,
+          window,
+          ...(limit.requests !== undefined && { requests: { used: usage.requests, limit: limit.requests } }),
+          ...(limit.tokens !== undefined && { tokens: { used: usage.tokens, limit: limit.tokens } }),
+          resetsAt: windowEnd(window, usage.start),
+        });
+      }
+    }
+    return result;
+  }
+
+  dump(): Record<string, Usage> {
+    return Object.fromEntries(this.usage);
+  }
+
+  /** Replace usage with a saved dump, skipping windows that have ended. */
+  load(saved: Record<string, Usage>): void {
+    this.usage.clear();
+    for (const [key, usage] of Object.entries(saved)) {
+      const window = key.slice(key.lastIndexOf("|") + 1) as BudgetWindow;
+      if (WINDOWS.includes(window) && usage.start === windowStart(window)) this.usage.set(key, usage);
+    }
+  }
+
+  reset(): void {
+    this.usage.clear();
+  }
+}
+
+export const budget = new BudgetTracker();
@@ -0,0 +1,179 @@
+/** Per-account and per-pool concurrency limits. Requests over a limit wait for a slot —
+ *  interactive requests ahead of background ones — until one frees up or the pool's
+ *  `queueTimeoutMs` passes. A slot is held until the response body has been sent. */
+
+import { logger } from "../utils/logger.ts";
+import type { QuotaPool } from "./cooldown.ts";
+import { policyFor } from "./policy.ts";
+
+export type Priority = "interactive" | "background";
+
+/** Lets a client state its priority explicitly — e.g. batch jobs sharing the proxy with Amp. */
+export const PRIORITY_HEADER = "x-connector-priority";
+
+export interface Slot {
+  /** Time spent queued before the slot was granted. */
+  waitedMs: number;
+  /** Idempotent. */
+  release(): void;
+}
+
+interface Waiter {
+  pool: QuotaPool;
+  account: number;
+  priority: Priority;
+  enqueuedAt: number;
+  grant(slot: Slot): void;
+}
+
+/** Requests tied to an Amp thread are interactive; thread-less ones (title generation and other
+ *  side requests) are background, unless the client says otherwise. */
+export function priorityOf(headers: Headers, threadId?: string): Priority {
+  const explicit = headers.get(PRIORITY_HEADER);
+  if (explicit === "interactive" || explicit === "background") return explicit;
+  return threadId ? "interactive" : "background";
+}
+
+class ConcurrencyLimiter {
+  private accounts = new Map<string, number>();
+  private pools = new Map<QuotaPool, number>();
+  private queue: Waiter[] = [];
+
+  private key(pool: QuotaPool, account: number): string {
+    return `${pool}:${account}`;
+  }
+
+  /** Whether a request on the account would get a slot now, without queueing. */
+  hasRoom(pool: QuotaPool, account: number): boolean {
+    const { maxConcurrentPerAccount, maxConcurrentPerPool } = policyFor(pool);
+    if (maxConcurrentPerAccount > 0 && (this.accounts.get(this.key(pool, account)) ?? 0) >= maxConcurrentPerAccount) {
+      return false;
+    }
+    return maxConcurrentPerPool === 0 || (this.pools.get(pool) ?? 0) < maxConcurrentPerPool;
+  }
+
+  private take(pool: QuotaPool, account: number, waitedMs: number): Slot {
+    const k = this.key(pool, account);
+    this.accounts.set(k, (this.accounts.get(k) ?? 0) + 1);
+    this.pools.set(pool, (this.pools.get(pool) ?? 0) + 1);
+    let released = false;
+    return {
+      waitedMs,
+      release: () => {
+        if (released) return;
+        released = true;
+        this.accounts.set(k, this.accounts.get(k)! - 1);
+        this.pools.set(pool, this.pools.get(pool)! - 1);
+        this.grantWaiting();
+      },
+    };
+  }
+
+  /** Hand freed slots to waiters in queue order. A waiter blocked on its own account does not
+   *  hold up waiters for other accounts behind it. */
+  private grantWaiting(): void {
+    for (let i = 0; i < this.queue.length; ) {
+      const waiter = this.queue[i]!;
+      if (!this.hasRoom(waiter.pool, waiter.account)) {
+        i++;
+        continue;
+      }
+      this.queue.splice(i, 1);
+      waiter.grant(this.take(waiter.pool, waiter.account, Date.now() - waiter.enqueuedAt));
+    }
+  }
+
+  private enqueue(waiter: Waiter): void {
+    // Interactive requests go ahead of every queued background request, behind earlier interactive ones.
+    const at = waiter.priority === "interactive" ? this.queue.findIndex((w) => w.priority === "background") : -1;
+    if (at === -1) this.queue.push(waiter);
+    else this.queue.splice(at, 0, waiter);
+  }
+
+  /** A slot on the account, waiting when it or its pool is at the limit. Null when the wait
+   *  timed out or `signal` aborted first. */
+  acquire(pool: QuotaPool, account: number, priority: Priority, signal?: AbortSignal): Promise<Slot | null> {
+    if (this.hasRoom(pool, account)) return Promise.resolve(this.take(pool, account, 0));
+    const { queueTimeoutMs } = policyFor(pool);
+    if (queueTimeoutMs === 0 || signal?.aborted) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      const waiter: Waiter = {
+        pool,
+        account,
+        priority,
+        enqueuedAt: Date.now(),
+        grant: (slot) => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", abandon);
+          resolve(slot);
+        },
+      };
+      const abandon = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", abandon);
+        this.queue = this.queue.filter((w) => w !== waiter);
+        resolve(null);
+      };
+      const timer = setTimeout(() => {
+        logger.warn(`Gave up waiting ${queueTimeoutMs}ms for a slot on ${pool}:${account}`);
+        abandon();
+      }, queueTimeoutMs);
+      signal?.addEventListener("abort", abandon);
+
+      this.enqueue(waiter);
+      logger.info(`QUEUED ${priority} request for ${pool}:${account}`, { depth: this.queue.length });
+    });
+  }
+
+  /** In-flight and queued requests per account, for /status and /metrics. */
+  snapshot(): { active: Record<string, number>; queued: Record<string, { interactive: number; background: number }> } {
+    const active = Object.fromEntries([...this.accounts].filter(([, n]) => n > 0));
+    const queued: Record<string, { interactive: number; background: number }> = {};
+    for (const w of this.queue) {
+      const k = this.key(w.pool, w.account);
+      queued[k] ??= { interactive: 0, background: 0 };
+      queued[k][w.priority]++;
+    }
+    return { active, queued };
+  }
+
+  reset(): void {
+    this.accounts.clear();
+    this.pools.clear();
+    this.queue = [];
+  }
+}
+
+export const concurrency = new ConcurrencyLimiter();
+
+/** Release `slot` once the response body has been read to the end or cancelled. Error responses
+ *  are buffered (and may be discarded for a reroute), so their slot is released right away. */
+export function releaseWhenDone(response: Response, slot: Slot): Response {
+  if (!response.ok || !response.body) {
+    slot.release();
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          slot.release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (err) {
+        slot.release();
+        controller.error(err);
+      }
+    },
+    cancel(reason) {
+      slot.release();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
@@ -1,25 +1,20 @@
 /** Per-(quotaPool, account) cooldown tracking.
  *  Distinguishes short burst 429s from quota exhaustion. */
 
+import * as events from "../utils/events.ts";
 import { logger } from "../utils/logger.ts";
+import { policyFor } from "./policy.ts";
 
 export type QuotaPool = "anthropic" | "codex" | "google";
 
-interface CooldownEntry {
+export interface CooldownEntry {
   until: number;
   exhausted: boolean;
   consecutive429: number;
 }
 
-/** When detected as exhausted, cooldown for this long. */
-/** 403 = account disabled/revoked — long cooldown. */
-const FORBIDDEN_COOLDOWN_MS = 24 * 3600_000;
-const EXHAUSTED_COOLDOWN_MS = 2 * 3600_000;
-/** Retry-After threshold (seconds) above which we consider quota exhausted. */
-const EXHAUSTED_THRESHOLD_S = 300;
-/** Consecutive 429 count to trigger exhaustion detection. */
-const EXHAUSTED_CONSECUTIVE = 3;
-/** Default burst cooldown when no Retry-After header. */
+/** Default burst cooldown when no Retry-After header.
+ *  Exhaustion thresholds and cooldown lengths come from the pool's routing policy. */
 const DEFAULT_BURST_S = 30;
 
 class CooldownTracker {
@@ -40,6 +35,11 @@ class CooldownTracker {
     return entry;
   }
 
+  /** Current entry, if the account is cooling down — for the admin API. */
+  inspect(pool: QuotaPool, account: number): Readonly<CooldownEntry> | undefined {
+    return this.getEntry(pool, account);
+  }
+
   isCoolingDown(pool: QuotaPool, account: number): boolean {
     return this.getEntry(pool, account) !== undefined;
   }
@@ -54,24 +54,28 @@ class CooldownTracker {
 
     entry.consecutive429++;
     const retryAfter = retryAfterSeconds ?? DEFAULT_BURST_S;
+    const policy = policyFor(pool);
 
-    if (retryAfter > EXHAUSTED_THRESHOLD_S || entry.consecutive429 >= EXHAUSTED_CONSECUTIVE) {
+    if (retryAfter > policy.exhaustedThresholdS || entry.consecutive429 >= policy.exhaustedConsecutive) {
       entry.exhausted = true;
-      entry.until = Date.now() + EXHAUSTED_COOLDOWN_MS;
-      logger.warn(`Quota exhausted: ${k}`, { cooldownMinutes: EXHAUSTED_COOLDOWN_MS / 60_000 });
+      entry.until = Date.now() + policy.exhaustedCooldownMs;
+      logger.warn(`Quota exhausted: ${k}`, { cooldownMinutes: policy.exhaustedCooldownMs / 60_000 });
     } else {
       entry.until = Date.now() + retryAfter * 1000;
       logger.debug(`Burst cooldown: ${k}`, { retryAfterSeconds: retryAfter });
     }
 
     this.entries.set(k, entry);
+    this.emit(pool, account, entry.exhausted ? "exhausted" : "burst", entry.until);
   }
 
-  /** 403 = account forbidden/revoked. Immediately disable for 24h. */
+  /** 403 = account forbidden/revoked. Immediately disable (24h by default). */
   record403(pool: QuotaPool, account: number): void {
     const k = this.key(pool, account);
-    this.entries.set(k, { until: Date.now() + FORBIDDEN_COOLDOWN_MS, exhausted: true, consecutive429: 0 });
-    logger.warn(`Account disabled (403): ${k}`, { cooldownHours: FORBIDDEN_COOLDOWN_MS / 3600_000 });
+    const { forbiddenCooldownMs } = policyFor(pool);
+    this.entries.set(k, { until: Date.now() + forbiddenCooldownMs, exhausted: true, consecutive429: 0 });
+    logger.warn(`Account disabled (403): ${k}`, { cooldownHours: forbiddenCooldownMs / 3600_000 });
+    this.emit(pool, account, "forbidden", this.entries.get(k)!.until);
   }
 
   /** Return shortest remaining wait (ms) among non-exhausted entries for the given candidates.
@@ -91,7 +95,25 @@ class CooldownTracker {
   }
 
   recordSuccess(pool: QuotaPool, account: number): void {
-    this.entries.delete(this.key(pool, account));
+    if (this.entries.delete(this.key(pool, account))) this.emit(pool, account, "cleared");
+  }
+
+  private emit(pool: QuotaPool, account: number, state: string, until?: number): void {
+    events.emit("cooldown", { provider: pool, pool, account, state, ...(until && { until }) });
+  }
+
+  /** Active entries by "pool:account", for persisting across restarts. */
+  dump(): Record<string, CooldownEntry> {
+    const now = Date.now();
+    return Object.fromEntries([...this.entries].filter(([, entry]) => entry.until > now));
+  }
+
+  /** Restore dumped entries, skipping those that ran out meanwhile. */
+  load(saved: Record<string, CooldownEntry>): void {
+    const now = Date.now();
+    for (const [k, entry] of Object.entries(saved)) {
+      if (entry.until > now) this.entries.set(k, { ...entry });
+    }
   }
 
   reset(): void {
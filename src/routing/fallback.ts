@@ -0,0 +1,110 @@
+/** Cross-provider model fallback: before a request Amp sent to Anthropic goes to Amp upstream, try
+ *  the equivalent models listed in `models.fallbacks` on the other local pools. The request is
+ *  translated for the target (providers/translate-*.ts) and its answer translated back, reported
+ *  under the model Amp asked for. */
+
+import {
+  type EventParser,
+  type MessagesRequest,
+  parseRequest,
+  translateMessage,
+  translateStream,
+} from "../providers/translate.ts";
+import { geminiParser, geminiPath, toGemini } from "../providers/translate-gemini.ts";
+import { chatCompletionsParser, toChatCompletions } from "../providers/translate-openai.ts";
+import { type ParsedBody, parseBody } from "../server/body.ts";
+import type { RouteTrace } from "../server/diagnostics.ts";
+import { clientClosed } from "../utils/abort.ts";
+import * as events from "../utils/events.ts";
+import { logger } from "../utils/logger.ts";
+import { type FallbackTarget, fallbacksFor } from "../utils/models.ts";
+import { forwardTo, type RerouteContext, recordFailure } from "./retry.ts";
+import { pickAccount, recordSuccess } from "./router.ts";
+
+/** The one Amp request path that is translated — token counting and the like go upstream as before. */
+const MESSAGES_PATH = "/v1/messages";
+
+interface Translator {
+  /** Amp provider path segment of the target pool. */
+  ampProvider: string;
+  prepare(request: MessagesRequest, model: string): { sub: string; body: ParsedBody };
+  parser(): EventParser;
+}
+
+const TRANSLATORS: Record<FallbackTarget["provider"], Translator> = {
+  codex: {
+    ampProvider: "openai",
+    prepare(request, model) {
+      const sub = "/v1/chat/completions";
+      return { sub, body: parseBody(toChatCompletions(request, model), sub, "codex") };
+    },
+    parser: chatCompletionsParser,
+  },
+  google: {
+    ampProvider: "google",
+    prepare(request, model) {
+      // The model travels in the path; parsing the body for it could pick up a tool argument.
+      const raw = toGemini(request);
+      const stream = request.stream === true;
+      return {
+        sub: geminiPath(model, stream),
+        body: { raw, ampModel: model, stream, forwardBody: raw, parsed: JSON.parse(raw) as Record<string, unknown> },
+      };
+    },
+    parser: geminiParser,
+  },
+};
+
+/** Answer from the first fallback target with a usable account, or null to go to Amp upstream.
+ *  On success the trace names the pool and account that answered and the model substituted. */
+export async function tryModelFallback(ctx: RerouteContext, trace: RouteTrace): Promise<Response | null> {
+  if (ctx.providerName !== "anthropic" || ctx.sub !== MESSAGES_PATH || !ctx.ampModel) return null;
+  const targets = fallbacksFor(ctx.ampModel).filter((t) => ctx.config.providers[t.provider]);
+  if (targets.length === 0) return null;
+  const request = parseRequest(ctx.body.raw);
+  if (!request) return null;
+
+  for (const target of targets) {
+    if (ctx.signal?.aborted) return clientClosed();
+    const translator = TRANSLATORS[target.provider];
+    const route = pickAccount(translator.ampProvider, target.model, ctx.config, ctx.threadId);
+    if (!route?.handler || !route.pool) {
+      logger.debug(`Model fallback: no usable ${target.provider} account for ${target.model}`);
+      continue;
+    }
+
+    const { sub, body } = translator.prepare(request, target.model);
+    logger.info(`MODEL FALLBACK ${ctx.ampModel} -> ${target.provider}/${target.model} account=${route.account}`);
+    const response = await forwardTo(
+      { ...ctx, sub, body, rewrite: undefined },
+      { handler: route.handler, pool: route.pool, account: route.account },
+      trace,
+    );
+    if (!response) continue;
+    if (ctx.signal?.aborted) return clientClosed();
+    if (!response.ok) {
+      if (response.status === 429 || response.status === 403) recordFailure(route.pool, route.account, response.status);
+      logger.warn(`Model fallback to ${target.provider}/${target.model} failed (${response.status})`);
+      await response.body?.cancel();
+      continue;
+    }
+
+    recordSuccess(route.pool, route.account);
+    Object.assign(trace, { decision: route.decision, pool: route.pool, account: route.account });
+    trace.substituteModel = `${target.provider}/${target.model}`;
+    delete trace.fallbackReason;
+    events.emit("substitute", {
+      provider: ctx.providerName,
+      model: ctx.ampModel,
+      substituteModel: trace.substituteModel,
+      pool: route.pool,
+      account: route.account,
+    });
+
+    const parse = translator.parser();
+    return body.stream
+      ? translateStream(response, parse, ctx.ampModel, ctx.signal)
+      : translateMessage(response, parse, ctx.ampModel);
+  }
+  return null;
+}
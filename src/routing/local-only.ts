@@ -0,0 +1,68 @@
+/** Local-only mode — requests it covers are never sent to Amp upstream. Where one would have
+ *  fallen back, the client gets an error in its provider's dialect instead: 429 with Retry-After
+ *  while the pool's accounts cool down, 503 when there is no account to wait for. A spent upstream
+ *  budget (budget.ts) is refused the same way. */
+
+import type { ProxyConfig } from "../config/config.ts";
+import { providerHealth } from "../server/health.ts";
+import { globToRegExp } from "../utils/glob.ts";
+import { providerError } from "../utils/responses.ts";
+import { GLOBAL_SCOPE, type SpentBudget } from "./budget.ts";
+import { providerKey, routableAccounts } from "./router.ts";
+
+export interface LocalOnlyConfig {
+  /** Every request. */
+  enabled?: boolean;
+  /** Amp providers (anthropic, openai, google) whose requests stay local. */
+  providers?: string[];
+  /** Amp model name globs whose requests stay local. */
+  models?: string[];
+}
+
+export function isLocalOnly(config: ProxyConfig, ampProvider: string, model: string | null): boolean {
+  const localOnly = config.localOnly;
+  if (!localOnly) return false;
+  if (localOnly.enabled || localOnly.providers?.includes(ampProvider)) return true;
+  return !!model && (localOnly.models ?? []).some((glob) => globToRegExp(glob).test(model));
+}
+
+/** The error answered instead of an upstream fallback for `reason` (a fallback reason, e.g. rate_limited). */
+export function refuseUpstream(
+  config: ProxyConfig,
+  ampProvider: string,
+  model: string | null,
+  reason: string | undefined,
+): Response {
+  const pool = providerKey(ampProvider);
+  const retryAt = localRetryAt(config, ampProvider);
+  const because = reason ? ` (${reason})` : "";
+  const what = `No local ${pool ?? ampProvider} account can serve ${model ?? "this request"}${because}`;
+
+  if (retryAt === undefined) {
+    return providerError(ampProvider, 503, `${what}, and local-only mode keeps it off Amp upstream`);
+  }
+  return rateLimited(ampProvider, `${what}; local-only mode keeps it off Amp upstream.`, retryAt);
+}
+
+/** The error answered instead of going upstream once `spent` is used up. */
+export function refuseOverBudget(config: ProxyConfig, ampProvider: string, spent: SpentBudget): Response {
+  const scope = spent.scope === GLOBAL_SCOPE ? "" : ` for ${spent.scope}`;
+  const what = `Amp upstream budget${scope} spent: ${spent.limit} ${spent.kind} ${spent.window === "hourly" ? "this hour" : "today"}.`;
+  const local = config.upstreamBudget?.onExhausted === "wait" ? localRetryAt(config, ampProvider) : undefined;
+  return rateLimited(ampProvider, what, Math.min(spent.resetsAt, local ?? Number.POSITIVE_INFINITY));
+}
+
+/** Earliest end of a cooldown on the local pool serving `ampProvider`, if that pool is enabled. */
+export function localRetryAt(config: ProxyConfig, ampProvider: string): number | undefined {
+  const pool = providerKey(ampProvider);
+  return pool && config.providers[pool]
+    ? providerHealth(pool, true, routableAccounts(pool, config)).nextCooldownEnd
+    : undefined;
+}
+
+function rateLimited(ampProvider: string, message: string, retryAt: number): Response {
+  const retryAfterS = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+  const response = providerError(ampProvider, 429, `${message} Retry in ${retryAfterS}s`, "rate_limit_error");
+  response.headers.set("Retry-After", String(retryAfterS));
+  return response;
+}
@@ -0,0 +1,79 @@
+/** Routing, cooldown and retry tuning — global defaults with per-QuotaPool overrides.
+ *  Installed from config at startup and on every reload; read at decision time. */
+
+import type { ProxyConfig } from "../config/config.ts";
+import type { QuotaPool } from "./cooldown.ts";
+
+export interface RoutingPolicy {
+  /** Cooldown once an account is detected as quota-exhausted. */
+  exhaustedCooldownMs: number;
+  /** Cooldown after a 403 (account disabled/revoked). */
+  forbiddenCooldownMs: number;
+  /** Retry-After (seconds) above which a 429 counts as quota exhaustion. */
+  exhaustedThresholdS: number;
+  /** Consecutive 429s that count as quota exhaustion. */
+  exhaustedConsecutive: number;
+  /** Reroute attempts to other accounts before falling back to upstream. */
+  maxRerouteAttempts: number;
+  /** Max Retry-After (seconds) worth waiting on the same account to keep its prompt cache. */
+  cachePreserveWaitMaxS: number;
+  /** Max wait when every candidate is burst-cooling before giving up. */
+  burstWaitMaxMs: number;
+  /** Thread affinity expires after this much inactivity. */
+  affinityTtlMs: number;
+  /** Transport-level retries on network errors and 5xx. */
+  maxRetries: number;
+  /** Base delay between transport retries (multiplied by attempt number). */
+  retryDelayMs: number;
+  /** Requests in flight per account before further ones queue (0 = unlimited). */
+  maxConcurrentPerAccount: number;
+  /** Requests in flight across the pool before further ones queue (0 = unlimited). */
+  maxConcurrentPerPool: number;
+  /** Longest a request waits for a concurrency slot before falling back to upstream (0 = never queue). */
+  queueTimeoutMs: number;
+}
+
+export const DEFAULT_POLICY: RoutingPolicy = {
+  exhaustedCooldownMs: 2 * 3600_000,
+  forbiddenCooldownMs: 24 * 3600_000,
+  exhaustedThresholdS: 300,
+  exhaustedConsecutive: 3,
+  maxRerouteAttempts: 4,
+  cachePreserveWaitMaxS: 10,
+  burstWaitMaxMs: 30_000,
+  affinityTtlMs: 2 * 3600_000,
+  maxRetries: 3,
+  retryDelayMs: 500,
+  maxConcurrentPerAccount: 0,
+  maxConcurrentPerPool: 0,
+  queueTimeoutMs: 60_000,
+};
+
+const POOLS: readonly QuotaPool[] = ["anthropic", "codex", "google"];
+
+let resolved = new Map<QuotaPool, RoutingPolicy>();
+
+/** Install the routing block from config. Pool overrides apply on top of the global values. */
+export function setRoutingPolicy(routing: ProxyConfig["routing"]): void {
+  const { pools, ...base } = routing;
+  const next = new Map<QuotaPool, RoutingPolicy>();
+  for (const pool of POOLS) {
+    next.set(pool, { ...DEFAULT_POLICY, ...base, ...definedOnly(pools?.[pool]) });
+  }
+  resolved = next;
+}
+
+/** Effective policy for a pool. Without a pool (e.g. upstream fallback, tests), the defaults. */
+export function policyFor(pool?: QuotaPool | null): RoutingPolicy {
+  return (pool && resolved.get(pool)) || DEFAULT_POLICY;
+}
+
+/** Effective policy of every pool — exposed in the health endpoint. */
+export function allPolicies(): Record<QuotaPool, RoutingPolicy> {
+  return Object.fromEntries(POOLS.map((pool) => [pool, policyFor(pool)])) as Record<QuotaPool, RoutingPolicy>;
+}
+
+function definedOnly(overrides: Partial<RoutingPolicy> | undefined): Partial<RoutingPolicy> {
+  if (!overrides) return {};
+  return Object.fromEntries(Object.entries(overrides).filter(([, v]) => v !== undefined));
+}
@@ -1,22 +1,25 @@
-/** Retry logic: cache-preserving wait + reroute after retryable failures (429/403). */
+/** Retry logic: cache-preserving wait + reroute after retryable failures (429/403).
+ *  Every local attempt goes through `forwardTo`, which holds the account's concurrency slot. */
 
 import type { ProxyConfig } from "../config/config.ts";
+import type { Provider } from "../providers/base.ts";
 import type { ParsedBody } from "../server/body.ts";
+import type { RouteTrace } from "../server/diagnostics.ts";
+import { clientClosed, sleep } from "../utils/abort.ts";
+import * as events from "../utils/events.ts";
 import { logger } from "../utils/logger.ts";
+import { budget } from "./budget.ts";
+import { concurrency, type Priority, releaseWhenDone } from "./concurrency.ts";
 import { cooldown, parseRetryAfter, type QuotaPool } from "./cooldown.ts";
-import { buildCandidates, type RouteResult, recordSuccess, reroute } from "./router.ts";
-
-/** Max reroute attempts before falling back to upstream. */
-const MAX_REROUTE_ATTEMPTS = 4;
-/** Max seconds to wait-and-retry on the same account (preserves prompt cache). */
-const CACHE_PRESERVE_WAIT_MAX_S = 10;
-/** Max ms to wait when all candidates are burst-cooling before giving up. */
-const BURST_WAIT_MAX_MS = 30_000;
+import { localRetryAt } from "./local-only.ts";
+import { policyFor } from "./policy.ts";
+import { buildCandidates, pickAccount, type RouteResult, recordSuccess, reroute } from "./router.ts";
+import { matchRule } from "./rules.ts";
 
 /** Status codes that trigger rerouting to a different account/pool. */
 const REROUTABLE_STATUSES = new Set([429, 403]);
 
-interface RerouteContext {
+export interface RerouteContext {
   providerName: string;
   ampModel: string | null;
   config: ProxyConfig;
@@ -25,23 +28,100 @@ interface RerouteContext {
   headers: Headers;
   rewrite: ((data: string) => string) | undefined;
   threadId?: string;
+  /** Client request's signal — waits end and no further attempts are made once it aborts. */
+  signal?: AbortSignal;
+  /** Queue position when an account is at its concurrency limit. */
+  priority: Priority;
+}
+
+/** Forward to one account inside a concurrency slot, queueing while the account or its pool is
+ *  at its limit. Null when no slot was granted within the pool's `queueTimeoutMs`. */
+export async function forwardTo(
+  ctx: RerouteContext,
+  target: { handler: Provider; pool: QuotaPool; account: number },
+  trace?: RouteTrace,
+): Promise<Response | null> {
+  const slot = await concurrency.acquire(target.pool, target.account, ctx.priority, ctx.signal);
+  if (!slot) return ctx.signal?.aborted ? clientClosed() : null;
+  if (trace) {
+    trace.attempts++;
+    trace.queuedMs += slot.waitedMs;
+  }
+  // Whichever comes first — the client aborting or the response finishing — frees the slot and
+  // detaches the listener, so a long-lived signal does not collect one per attempt.
+  const release = () => {
+    ctx.signal?.removeEventListener("abort", release);
+    slot.release();
+  };
+  ctx.signal?.addEventListener("abort", release, { once: true });
+  try {
+    const response = await target.handler.forward(
+      ctx.sub,
+      ctx.body,
+      ctx.headers,
+      ctx.rewrite,
+      target.account,
+      ctx.signal,
+    );
+    return releaseWhenDone(response, { waitedMs: slot.waitedMs, release });
+  } catch (err) {
+    release();
+    throw err;
+  }
+}
+
+/** After the routed account's queue timed out: one attempt on another eligible account with a
+ *  free slot, before the request goes to Amp upstream. The thread stays pinned where it was. */
+export async function tryFreeAccount(
+  ctx: RerouteContext,
+  route: RouteResult,
+  trace?: RouteTrace,
+): Promise<Response | null> {
+  if (!ctx.ampModel) return null;
+  const next = pickAccount(ctx.providerName, ctx.ampModel, ctx.config, ctx.threadId);
+  if (!next?.handler || !next.pool) return null;
+  if (next.pool === route.pool && next.account === route.account) return null;
+  if (!concurrency.hasRoom(next.pool, next.account)) return null;
+
+  logger.info(`REROUTE (queue_timeout) -> ${next.decision} account=${next.account}`);
+  events.emit("reroute", {
+    provider: ctx.providerName,
+    model: ctx.ampModel,
+    status: "queue_timeout",
+    route: next.decision,
+    pool: next.pool,
+    account: next.account,
+  });
+  if (trace) Object.assign(trace, { decision: next.decision, pool: next.pool, account: next.account });
+  const response = await forwardTo(ctx, { handler: next.handler, pool: next.pool, account: next.account }, trace);
+  if (!response) return null;
+  if (ctx.signal?.aborted) return clientClosed();
+
+  if (REROUTABLE_STATUSES.has(response.status)) {
+    recordFailure(next.pool, next.account, response.status);
+    return null;
+  }
+  if (response.status === 401) return null;
+  recordSuccess(next.pool, next.account);
+  return response;
 }
 
 /** Wait briefly and retry on the same account to preserve prompt cache (429 only). */
 export async function tryWithCachePreserve(
+  ctx: RerouteContext,
   route: RouteResult,
-  sub: string,
-  body: ParsedBody,
-  headers: Headers,
-  rewrite: ((data: string) => string) | undefined,
   initialResponse: Response,
+  trace?: RouteTrace,
 ): Promise<Response | null> {
   const retryAfter = parseRetryAfter(initialResponse.headers.get("retry-after"));
-  if (retryAfter === undefined || retryAfter > CACHE_PRESERVE_WAIT_MAX_S) return null;
+  if (retryAfter === undefined || retryAfter > policyFor(route.pool).cachePreserveWaitMaxS) return null;
 
   logger.debug(`Waiting ${retryAfter}s to preserve prompt cache on account=${route.account}`);
-  await Bun.sleep(retryAfter * 1000);
-  const response = await route.handler!.forward(sub, body, headers, rewrite, route.account);
+  await sleep(retryAfter * 1000, ctx.signal);
+  if (ctx.signal?.aborted) return clientClosed();
+  const response = await forwardTo(ctx, { handler: route.handler!, pool: route.pool!, account: route.account }, trace);
+  if (!response) return null;
+  if (ctx.signal?.aborted) return clientClosed();
 
   if (response.status !== 429 && response.status !== 403 && response.status !== 401) {
     recordSuccess(route.pool!, route.account);
@@ -62,22 +142,28 @@ export async function tryReroute(
   ctx: RerouteContext,
   initialRoute: RouteResult,
   status: number,
+  trace?: RouteTrace,
 ): Promise<Response | null> {
   recordFailure(initialRoute.pool!, initialRoute.account, status);
 
   let currentPool = initialRoute.pool!;
   let currentAccount = initialRoute.account;
+  const { maxRerouteAttempts, burstWaitMaxMs } = policyFor(initialRoute.pool);
 
-  for (let attempt = 0; attempt < MAX_REROUTE_ATTEMPTS; attempt++) {
+  for (let attempt = 0; attempt < maxRerouteAttempts; attempt++) {
+    if (ctx.signal?.aborted) return clientClosed();
     let next = reroute(ctx.providerName, ctx.ampModel, ctx.config, currentPool, currentAccount, ctx.threadId);
 
-    // All candidates cooling down — wait for shortest burst then retry
+    // All candidates cooling down — wait for shortest burst then retry. Only accounts the matched
+    // rule and active profile allow count; a burst elsewhere would not free up a candidate.
     if (!next?.handler) {
-      const candidates = buildCandidates(ctx.providerName, ctx.config);
+      const rule = matchRule(ctx.config.rules, ctx.providerName, ctx.ampModel, ctx.threadId)?.rule;
+      const candidates = buildCandidates(ctx.providerName, ctx.config, rule);
       const waitMs = cooldown.shortestBurstWait(candidates);
-      if (waitMs && waitMs <= BURST_WAIT_MAX_MS) {
+      if (waitMs && waitMs <= burstWaitMaxMs) {
         logger.info(`All accounts cooling, waiting ${Math.ceil(waitMs / 1000)}s for burst cooldown`);
-        await Bun.sleep(waitMs + 100); // small buffer
+        await sleep(waitMs + 100, ctx.signal); // small buffer
+        if (ctx.signal?.aborted) return clientClosed();
         next = reroute(ctx.providerName, ctx.ampModel, ctx.config, currentPool, currentAccount, ctx.threadId);
       }
     }
@@ -85,7 +171,18 @@ export async function tryReroute(
     if (!next?.handler) break;
 
     logger.info(`REROUTE (${status}) -> ${next.decision} account=${next.account}`);
-    const response = await next.handler.forward(ctx.sub, ctx.body, ctx.headers, ctx.rewrite, next.account);
+    events.emit("reroute", {
+      provider: ctx.providerName,
+      model: ctx.ampModel,
+      status,
+      route: next.decision,
+      pool: next.pool,
+      account: next.account,
+    });
+    if (trace) Object.assign(trace, { decision: next.decision, pool: next.pool, account: next.account });
+    const response = await forwardTo(ctx, { handler: next.handler, pool: next.pool!, account: next.account }, trace);
+    if (!response) break;
+    if (ctx.signal?.aborted) return clientClosed();
 
     if (REROUTABLE_STATUSES.has(response.status) && next.pool) {
       recordFailure(next.pool, next.account, response.status);
@@ -104,8 +201,48 @@ export async function tryReroute(
   return null;
 }
 
+/** `upstreamBudget.onExhausted: wait` — hold a request the spent budget keeps off Amp upstream
+ *  until a local account comes off cooldown, and answer from it. Null once the budget has reset,
+ *  or when no local account is cooling down that could end the wait. */
+export async function waitForLocalQuota(ctx: RerouteContext, trace?: RouteTrace): Promise<Response | null> {
+  if (!ctx.ampModel) return null;
+  for (;;) {
+    const spent = budget.spent(ctx.config.upstreamBudget, ctx.ampModel);
+    if (!spent) return null;
+
+    const route = pickAccount(ctx.providerName, ctx.ampModel, ctx.config, ctx.threadId);
+    if (route?.handler && route.pool) {
+      const response = await forwardTo(
+        ctx,
+        { handler: route.handler, pool: route.pool, account: route.account },
+        trace,
+      );
+      if (ctx.signal?.aborted) return clientClosed();
+      if (response && !REROUTABLE_STATUSES.has(response.status) && response.status !== 401) {
+        recordSuccess(route.pool, route.account);
+        if (trace) {
+          Object.assign(trace, { decision: route.decision, pool: route.pool, account: route.account });
+          delete trace.fallbackReason;
+        }
+        return response;
+      }
+      if (response && REROUTABLE_STATUSES.has(response.status)) {
+        recordFailure(route.pool, route.account, response.status);
+      }
+    }
+
+    const local = localRetryAt(ctx.config, ctx.providerName);
+    if (local === undefined) return null;
+    const until = Math.min(spent.resetsAt, local);
+    if (until <= Date.now()) return null;
+    logger.info(`Upstream budget spent, waiting ${Math.ceil((until - Date.now()) / 1000)}s for local quota`);
+    await sleep(until - Date.now() + 100, ctx.signal);
+    if (ctx.signal?.aborted) return clientClosed();
+  }
+}
+
 /** Record the appropriate cooldown based on status code. */
-function recordFailure(pool: QuotaPool, account: number, status: number): void {
+export function recordFailure(pool: QuotaPool, account: number, status: number): void {
   if (status === 403) {
     cooldown.record403(pool, account);
   } else {
@@ -8,7 +8,7 @@
  * - Google: single pool with internal strategy fallback (gemini/antigravity)
  */
 
-import type { ProviderName } from "../auth/store.ts";
+import type { Credentials, ProviderName } from "../auth/store.ts";
 import * as store from "../auth/store.ts";
 import type { ProxyConfig } from "../config/config.ts";
 import { provider as anthropic } from "../providers/anthropic.ts";
@@ -17,7 +17,9 @@ import { provider as codex } from "../providers/codex.ts";
 import { provider as google } from "../providers/google.ts";
 import { logger, type RouteDecision } from "../utils/logger.ts";
 import { affinity } from "./affinity.ts";
+import { concurrency } from "./concurrency.ts";
 import { cooldown, type QuotaPool } from "./cooldown.ts";
+import { accountListed, type MatchedRule, matchRule, type RoutingRule, rejectionMessage, ruleAllows } from "./rules.ts";
 
 interface ProviderEntry {
   provider: Provider;
@@ -50,14 +52,22 @@ const PROVIDER_REGISTRY = new Map<string, { configKey: keyof ProxyConfig["provid
   ],
 ]);
 
-/** Reverse map: QuotaPool → Provider (built once at module init). */
-const POOL_TO_PROVIDER = new Map<QuotaPool, Provider>();
+/** Reverse map: QuotaPool → provider entry (built once at module init). */
+const POOL_TO_ENTRY = new Map<QuotaPool, ProviderEntry>();
 for (const [, { entries }] of PROVIDER_REGISTRY) {
   for (const entry of entries) {
-    POOL_TO_PROVIDER.set(entry.pool, entry.provider);
+    POOL_TO_ENTRY.set(entry.pool, entry);
   }
 }
 
+/** Config/credential name of the local provider serving an Amp provider path, e.g. "openai" → "codex". */
+export function providerKey(ampProvider: string): ProviderName | undefined {
+  return PROVIDER_REGISTRY.get(ampProvider)?.configKey;
+}
+
+/** Why a request went to Amp upstream without trying a local account. */
+export type UpstreamReason = "provider_disabled" | "rule" | "no_accounts" | "cooling_down";
+
 export interface RouteResult {
   decision: RouteDecision;
   provider: string;
@@ -65,6 +75,12 @@ export interface RouteResult {
   handler: Provider | null;
   account: number;
   pool: QuotaPool | null;
+  /** 0-based index of the `rules:` entry that matched, if any. */
+  rule?: number;
+  /** Client-facing error when decision is REJECTED. */
+  rejection?: string;
+  /** Set when decision is AMP_UPSTREAM. */
+  upstreamReason?: UpstreamReason;
 }
 
 interface Candidate {
@@ -85,18 +101,35 @@ export function routeRequest(
   const reg = PROVIDER_REGISTRY.get(ampProvider);
   if (!reg || !config.providers[reg.configKey]) {
     logger.route("AMP_UPSTREAM", ampProvider, modelStr);
-    return result(null, ampProvider, modelStr, 0, null);
+    return upstreamResult(ampProvider, modelStr, "provider_disabled");
+  }
+
+  // Routing rules come before affinity and candidates — they can forbid both
+  const matched = matchRule(config.rules, ampProvider, model, threadId);
+  if (matched) logger.debug(`Routing rule #${matched.index + 1} matched`, { provider: ampProvider, model: modelStr });
+  if (matched?.rule.action === "upstream") {
+    logger.route("AMP_UPSTREAM", ampProvider, modelStr);
+    return withRule(upstreamResult(ampProvider, modelStr, "rule"), matched);
   }
+  if (matched?.rule.action === "reject") {
+    logger.route("REJECTED", ampProvider, modelStr);
+    return {
+      ...withRule(result(null, ampProvider, modelStr, 0, null), matched),
+      decision: "REJECTED",
+      rejection: rejectionMessage(matched),
+    };
+  }
+  const rule = matched?.rule;
 
   // Check thread affinity (keyed by threadId + ampProvider)
   if (threadId) {
     const pinned = affinity.get(threadId, ampProvider);
-    if (pinned && !cooldown.isExhausted(pinned.pool, pinned.account)) {
+    if (pinned && !cooldown.isExhausted(pinned.pool, pinned.account) && pinnedEligible(config, pinned, rule)) {
       const handler = providerForPool(pinned.pool);
       if (handler?.isAvailable(pinned.account)) {
         if (!cooldown.isCoolingDown(pinned.pool, pinned.account)) {
           logger.route(handler.routeDecision, ampProvider, modelStr);
-          return result(handler, ampProvider, modelStr, pinned.account, pinned.pool);
+          return withRule(result(handler, ampProvider, modelStr, pinned.account, pinned.pool), matched);
         }
         // Burst cooldown — still pinned but cooling, let it fall through to find alternative
       }
@@ -106,24 +139,24 @@ export function routeRequest(
   }
 
   // Build candidate list
-  const candidates = buildCandidates(ampProvider, config);
+  const candidates = buildCandidates(ampProvider, config, rule);
   if (candidates.length === 0) {
     logger.route("AMP_UPSTREAM", ampProvider, modelStr);
-    return result(null, ampProvider, modelStr, 0, null);
+    return withRule(upstreamResult(ampProvider, modelStr, "no_accounts"), matched);
   }
 
   // Pick best candidate: not cooling down, least active threads
   const picked = pickCandidate(candidates);
   if (!picked) {
     logger.route("AMP_UPSTREAM", ampProvider, modelStr);
-    return result(null, ampProvider, modelStr, 0, null);
+    return withRule(upstreamResult(ampProvider, modelStr, "cooling_down"), matched);
   }
 
   // Pin thread affinity
   if (threadId) affinity.set(threadId, ampProvider, picked.pool, picked.account);
 
   logger.route(picked.provider.routeDecision, ampProvider, modelStr);
-  return result(picked.provider, ampProvider, modelStr, picked.account, picked.pool);
+  return withRule(result(picked.provider, ampProvider, modelStr, picked.account, picked.pool), matched);
 }
 
 /** Record a failure on the current account and pick the next candidate.
@@ -141,14 +174,30 @@ export function reroute(
   }
 
   const modelStr = model ?? "unknown";
-  const candidates = buildCandidates(ampProvider, config);
+  const matched = matchRule(config.rules, ampProvider, model, threadId);
+  const candidates = buildCandidates(ampProvider, config, matched?.rule);
   const picked = pickCandidate(candidates);
 
   if (!picked) return null;
 
   if (threadId) affinity.set(threadId, ampProvider, picked.pool, picked.account);
   logger.route(picked.provider.routeDecision, ampProvider, modelStr);
-  return result(picked.provider, ampProvider, modelStr, picked.account, picked.pool);
+  return withRule(result(picked.provider, ampProvider, modelStr, picked.account, picked.pool), matched);
+}
+
+/** Pick an account on `ampProvider` without pinning the thread to it — for a one-off attempt on another
+ *  pool (routing/fallback.ts). Null when a rule keeps the model off local accounts or none is usable. */
+export function pickAccount(
+  ampProvider: string,
+  model: string,
+  config: ProxyConfig,
+  threadId?: string,
+): RouteResult | null {
+  const matched = matchRule(config.rules, ampProvider, model, threadId);
+  if (matched && matched.rule.action !== undefined && matched.rule.action !== "local") return null;
+  const picked = pickCandidate(buildCandidates(ampProvider, config, matched?.rule));
+  if (!picked) return null;
+  return withRule(result(picked.provider, ampProvider, model, picked.account, picked.pool), matched);
 }
 
 /** Record a successful response — clears cooldown. */
@@ -156,13 +205,13 @@ export function recordSuccess(pool: QuotaPool, account: number): void {
   cooldown.recordSuccess(pool, account);
 }
 
-export function buildCandidates(ampProvider: string, config: ProxyConfig): Candidate[] {
+export function buildCandidates(ampProvider: string, config: ProxyConfig, rule?: RoutingRule): Candidate[] {
   const reg = PROVIDER_REGISTRY.get(ampProvider);
   if (!reg || !config.providers[reg.configKey]) return [];
 
   const candidates: Candidate[] = [];
   for (const entry of reg.entries) {
-    addAccountCandidates(candidates, entry.provider, entry.pool, entry.credentialName);
+    addAccountCandidates(candidates, entry.provider, entry.pool, entry.credentialName, config, rule);
   }
   return candidates;
 }
@@ -172,18 +221,57 @@ function addAccountCandidates(
   provider: Provider,
   pool: QuotaPool,
   providerName: ProviderName,
+  config: ProxyConfig,
+  rule: RoutingRule | undefined,
 ): void {
   for (const { account, credentials } of store.getAll(providerName)) {
-    if (credentials.refreshToken) {
+    if (credentials.refreshToken && isEligible(config, rule, providerName, account, credentials)) {
       candidates.push({ provider, pool, account });
     }
   }
 }
 
+/** Stored accounts the active config routes to — a profile's `accounts:` list applied, before any rule. */
+export function routableAccounts(
+  providerName: ProviderName,
+  config: ProxyConfig,
+): { account: number; credentials: Credentials }[] {
+  return store
+    .getAll(providerName)
+    .filter(({ account, credentials }) => isEligible(config, undefined, providerName, account, credentials));
+}
+
+/** Whether the active config (a profile's `accounts:` list, the matched rule) allows routing to this account. */
+function isEligible(
+  config: ProxyConfig,
+  rule: RoutingRule | undefined,
+  providerName: ProviderName,
+  account: number,
+  credentials: Credentials | undefined,
+): boolean {
+  const allowed = config.accounts?.[providerName];
+  if (allowed && !accountListed(allowed, account, credentials?.email)) return false;
+  return ruleAllows(rule, providerName, account, credentials?.email);
+}
+
+/** Affinity pins survive config reloads and profile switches — re-check them against the current config. */
+function pinnedEligible(
+  config: ProxyConfig,
+  pinned: { pool: QuotaPool; account: number },
+  rule: RoutingRule | undefined,
+): boolean {
+  const entry = POOL_TO_ENTRY.get(pinned.pool);
+  if (!entry) return false;
+  const credentials = store.get(entry.credentialName, pinned.account);
+  return isEligible(config, rule, entry.credentialName, pinned.account, credentials);
+}
+
 function pickCandidate(candidates: Candidate[]): Candidate | null {
-  // Filter out cooling-down accounts
-  const available = candidates.filter((c) => !cooldown.isCoolingDown(c.pool, c.account));
-  if (available.length === 0) return null;
+  // Filter out cooling-down accounts; prefer ones with a free concurrency slot over queueing
+  const ready = candidates.filter((c) => !cooldown.isCoolingDown(c.pool, c.account));
+  if (ready.length === 0) return null;
+  const free = ready.filter((c) => concurrency.hasRoom(c.pool, c.account));
+  const available = free.length > 0 ? free : ready;
 
   // Pick the one with least active threads (least-connections)
   // When multiple candidates have the same load, pick randomly for even distribution
@@ -204,7 +292,7 @@ function pickCandidate(candidates: Candidate[]): Candidate | null {
 }
 
 function providerForPool(pool: QuotaPool): Provider | null {
-  return POOL_TO_PROVIDER.get(pool) ?? null;
+  return POOL_TO_ENTRY.get(pool)?.provider ?? null;
 }
 
 function result(
@@ -217,3 +305,11 @@ function result(
   const decision: RouteDecision = handler?.routeDecision ?? "AMP_UPSTREAM";
   return { decision, provider, model, handler, account, pool };
 }
+
+function upstreamResult(provider: string, model: string, reason: UpstreamReason): RouteResult {
+  return { ...result(null, provider, model, 0, null), upstreamReason: reason };
+}
+
+function withRule(route: RouteResult, matched: MatchedRule | null): RouteResult {
+  return matched ? { ...route, rule: matched.index } : route;
+}
@@ -0,0 +1,70 @@
+/** Declarative routing rules — the ordered `rules:` config list, first match wins.
+ *  Evaluated by routeRequest() and reroute() before any candidate is selected:
+ *  a rule can force upstream, reject the request, or narrow the accounts it may use. */
+
+import type { ProviderName } from "../auth/store.ts";
+import { globToRegExp } from "../utils/glob.ts";
+
+export type RuleAction = "local" | "upstream" | "reject";
+
+export interface RoutingRule {
+  /** Amp provider path segment: anthropic, openai or google. */
+  provider?: string;
+  /** Amp model name glob. Rules with a pattern never match requests without a model. */
+  model?: string;
+  /** Thread id glob (x-amp-thread-id / x-session-id). */
+  thread?: string;
+  /** What to do with a matching request. Default: route locally, within `accounts`/`exclude`. */
+  action?: RuleAction;
+  /** Only these stored accounts (index or email) per pool. */
+  accounts?: Partial<Record<ProviderName, (number | string)[]>>;
+  /** Never these stored accounts per pool. */
+  exclude?: Partial<Record<ProviderName, (number | string)[]>>;
+  /** Shown to the client when the rule rejects. */
+  message?: string;
+}
+
+export interface MatchedRule {
+  /** 0-based position in `rules:`. */
+  index: number;
+  rule: RoutingRule;
+}
+
+export function matchRule(
+  rules: readonly RoutingRule[] | undefined,
+  ampProvider: string,
+  model: string | null,
+  threadId?: string,
+): MatchedRule | null {
+  if (!rules) return null;
+  for (const [index, rule] of rules.entries()) {
+    if (rule.provider && rule.provider !== ampProvider) continue;
+    if (rule.model && !(model && globToRegExp(rule.model).test(model))) continue;
+    if (rule.thread && !(threadId && globToRegExp(rule.thread).test(threadId))) continue;
+    return { index, rule };
+  }
+  return null;
+}
+
+/** Whether a matched rule lets a request use this account. No rule allows everything. */
+export function ruleAllows(
+  rule: RoutingRule | undefined,
+  pool: ProviderName,
+  account: number,
+  email: string | undefined,
+): boolean {
+  if (!rule) return true;
+  const only = rule.accounts?.[pool];
+  if (only && !accountListed(only, account, email)) return false;
+  const excluded = rule.exclude?.[pool];
+  return !(excluded && accountListed(excluded, account, email));
+}
+
+/** Account references in config are stored-account indexes or emails. */
+export function accountListed(refs: readonly (number | string)[], account: number, email: string | undefined): boolean {
+  return refs.some((ref) => (typeof ref === "number" ? ref === account : ref === email));
+}
+
+export function rejectionMessage({ index, rule }: MatchedRule): string {
+  return `Request rejected by routing rule #${index + 1}${rule.message ? `: ${rule.message}` : ""}`;
+}
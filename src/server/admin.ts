@@ -0,0 +1,142 @@
+/** Admin API under /_connector/admin — inspect and adjust the running proxy's in-process state.
+ *  Authenticated with the admin key in `admin.key` next to credentials.db (created on first
+ *  start, 0600), which `ampcode-connector ctl` reads; connector access tokens do not grant it. */
+
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { ProviderName } from "../auth/store.ts";
+import * as store from "../auth/store.ts";
+import * as status from "../cli/status.ts";
+import { clearStrategyCooldowns, strategyState } from "../providers/google.ts";
+import { affinity } from "../routing/affinity.ts";
+import { concurrency } from "../routing/concurrency.ts";
+import { cooldown } from "../routing/cooldown.ts";
+import { toBase64url } from "../utils/encoding.ts";
+import { type LogLevel, logger, setLogLevel } from "../utils/logger.ts";
+import { apiError } from "../utils/responses.ts";
+import { stats } from "../utils/stats.ts";
+
+export const ADMIN_PREFIX = "/_connector/admin";
+export const ADMIN_KEY_FILE = "admin.key";
+
+const PROVIDERS: readonly ProviderName[] = ["anthropic", "codex", "google"];
+const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+const DEFAULT_REQUESTS = 50;
+
+let cachedKey: string | null = null;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: (req: Request, params: string[], url: URL) => Response | Promise<Response>;
+}
+
+const routes: Route[] = [
+  { method: "GET", pattern: /^\/accounts$/, handler: () => Response.json({ providers: accountOverview() }) },
+  {
+    method: "DELETE",
+    pattern: /^\/accounts\/([a-z]+)\/(\d+)\/cooldown$/,
+    handler: (_req, [provider, account]) => clearCooldown(provider!, Number(account)),
+  },
+  { method: "GET", pattern: /^\/affinity$/, handler: () => Response.json({ threads: affinity.list() }) },
+  {
+    method: "DELETE",
+    pattern: /^\/affinity\/([^/]+)$/,
+    handler: (_req, [threadId]) => {
+      const removed = affinity.clearThread(decodeURIComponent(threadId!));
+      if (removed === 0) return apiError(404, `No affinity for thread ${threadId}`, "not_found_error");
+      logger.info(`Admin: unpinned thread ${threadId}`, { removed });
+      return Response.json({ removed });
+    },
+  },
+  { method: "PUT", pattern: /^\/log-level$/, handler: (req) => changeLogLevel(req) },
+  {
+    method: "GET",
+    pattern: /^\/requests$/,
+    handler: (_req, _params, url) => {
+      const limit = Number(url.searchParams.get("limit") ?? DEFAULT_REQUESTS);
+      if (!Number.isInteger(limit) || limit < 1) return apiError(400, "limit must be a positive integer");
+      return Response.json({ stats: stats.snapshot(), requests: stats.recentRequests(limit) });
+    },
+  },
+];
+
+export function isAdminPath(pathname: string): boolean {
+  return pathname === ADMIN_PREFIX || pathname.startsWith(`${ADMIN_PREFIX}/`);
+}
+
+export async function handleAdmin(req: Request, pathname: string, url: URL): Promise<Response> {
+  const sub = pathname.slice(ADMIN_PREFIX.length);
+  let pathMatched = false;
+  for (const route of routes) {
+    const match = route.pattern.exec(sub);
+    if (!match) continue;
+    pathMatched = true;
+    if (route.method === req.method) return route.handler(req, match.slice(1), url);
+  }
+  return pathMatched
+    ? apiError(405, `${req.method} not allowed on ${pathname}`, "invalid_request_error")
+    : apiError(404, `Unknown admin endpoint ${pathname}`, "not_found_error");
+}
+
+/** The admin key, created on first use. */
+export function adminKey(): string {
+  if (cachedKey) return cachedKey;
+  const file = join(store.dataDir(), ADMIN_KEY_FILE);
+  if (existsSync(file)) {
+    cachedKey = readFileSync(file, "utf-8").trim();
+  } else {
+    mkdirSync(store.dataDir(), { recursive: true, mode: 0o700 });
+    cachedKey = toBase64url(randomBytes(32));
+    writeFileSync(file, `${cachedKey}\n`, { mode: 0o600 });
+  }
+  return cachedKey;
+}
+
+export function isAdminKey(presented: string): boolean {
+  const expected = Buffer.from(adminKey());
+  const actual = Buffer.from(presented);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Stored accounts with their live routing state — shared with the dashboard. */
+export function accountOverview() {
+  const slots = concurrency.snapshot();
+  return status.all().map((p) => ({
+    provider: p.name,
+    label: p.label,
+    accounts: p.accounts.map((a) => ({
+      ...a,
+      cooldown: cooldown.inspect(p.name, a.account) ?? null,
+      activeThreads: affinity.activeCount(p.name, a.account),
+      inFlight: slots.active[`${p.name}:${a.account}`] ?? 0,
+      queued: slots.queued[`${p.name}:${a.account}`] ?? { interactive: 0, background: 0 },
+      ...(p.name === "google" && { strategies: strategyState(a.account) }),
+    })),
+  }));
+}
+
+function clearCooldown(provider: string, account: number): Response {
+  if (!PROVIDERS.includes(provider as ProviderName)) {
+    return apiError(400, `Unknown provider ${provider}. Available: ${PROVIDERS.join(", ")}`);
+  }
+  const name = provider as ProviderName;
+  if (!store.get(name, account)) return apiError(404, `No ${provider} account ${account}`, "not_found_error");
+  const wasCooling = cooldown.isCoolingDown(name, account);
+  cooldown.recordSuccess(name, account);
+  if (name === "google") clearStrategyCooldowns(account);
+  logger.info(`Admin: cleared cooldown for ${provider}:${account}`);
+  return Response.json({ cleared: wasCooling });
+}
+
+async function changeLogLevel(req: Request): Promise<Response> {
+  const body = (await req.json().catch(() => null)) as { level?: unknown } | null;
+  const level = body?.level;
+  if (typeof level !== "string" || !LOG_LEVELS.includes(level as LogLevel)) {
+    return apiError(400, `level must be one of ${LOG_LEVELS.join(", ")}`);
+  }
+  setLogLevel(level as LogLevel);
+  logger.info(`Admin: log level set to ${level} (until the next config reload)`);
+  return Response.json({ level });
+}
@@ -0,0 +1,87 @@
+/** Client authentication — when `auth.required` is set, provider, passthrough and internal
+ *  routes need a connector access token (auth/tokens.ts); the admin API always needs the
+ *  admin key (server/admin.ts). Checked before handle().
+ *
+ *  The token may arrive as `X-Connector-Token: <token>`, `Proxy-Authorization: Bearer <token>`,
+ *  or as Amp's own API key (`Authorization: Bearer ampcc_...`). In the first two cases Amp's
+ *  Authorization header is forwarded upstream untouched; in the last it is dropped so the
+ *  configured ampApiKey is used instead and the connector token never leaves this process. */
+
+import * as tokens from "../auth/tokens.ts";
+import type { ProxyConfig } from "../config/config.ts";
+import * as path from "../utils/path.ts";
+import { apiError } from "../utils/responses.ts";
+import { isAdminKey, isAdminPath } from "./admin.ts";
+import { isDashboardPage } from "./dashboard.ts";
+import { isHealthPath } from "./health.ts";
+
+export const TOKEN_HEADER = "x-connector-token";
+
+export type AccessResult = { ok: true; req: Request } | { ok: false; response: Response };
+
+/** Where a presented token was found — decides which headers are stripped before forwarding. */
+export interface PresentedToken {
+  token: string;
+  header: "x-connector-token" | "proxy-authorization" | "authorization";
+}
+
+export function checkAccess(req: Request, pathname: string, config: ProxyConfig): AccessResult {
+  // The admin API always needs the admin key, whatever auth.required says.
+  if (isAdminPath(pathname)) {
+    const key = req.headers.get(TOKEN_HEADER)?.trim() ?? bearer(req.headers.get("authorization"));
+    if (key && isAdminKey(key)) return { ok: true, req };
+    return { ok: false, response: unauthorized("Missing or invalid admin key") };
+  }
+  if (!config.auth.required || isPublic(req, pathname)) return { ok: true, req };
+
+  const presented = presentedToken(req.headers);
+  if (!presented || !tokens.verify(presented.token)) {
+    return { ok: false, response: unauthorized("Missing or invalid connector access token") };
+  }
+  return { ok: true, req: withoutToken(req, presented) };
+}
+
+function unauthorized(message: string): Response {
+  const response = apiError(401, message, "authentication_error");
+  response.headers.set("WWW-Authenticate", 'Bearer realm="ampcode-connector"');
+  return response;
+}
+
+/** Health checks, metrics, the dashboard page (not its data) and browser redirects carry no
+ *  credentials and spend no quota. */
+function isPublic(req: Request, pathname: string): boolean {
+  if ((pathname === "/" || pathname === "/status" || pathname === "/metrics") && req.method === "GET") return true;
+  if (isHealthPath(pathname) && req.method === "GET") return true;
+  if (isDashboardPage(pathname) && req.method === "GET") return true;
+  return path.browser(pathname);
+}
+
+export function presentedToken(headers: Headers): PresentedToken | null {
+  const explicit = headers.get(TOKEN_HEADER)?.trim();
+  if (explicit) return { token: explicit, header: "x-connector-token" };
+
+  const proxyAuth = bearer(headers.get("proxy-authorization"));
+  if (proxyAuth) return { token: proxyAuth, header: "proxy-authorization" };
+
+  const auth = bearer(headers.get("authorization"));
+  if (auth?.startsWith(tokens.TOKEN_PREFIX)) return { token: auth, header: "authorization" };
+  return null;
+}
+
+/** Copy of the request without the connector token, safe to forward upstream. */
+export function withoutToken(req: Request, presented: PresentedToken): Request {
+  const headers = new Headers(req.headers);
+  headers.delete(presented.header);
+  return new Request(req.url, {
+    method: req.method,
+    headers,
+    body: req.method !== "GET" && req.method !== "HEAD" ? req.body : undefined,
+    duplex: "half",
+    signal: req.signal,
+  } as RequestInit);
+}
+
+function bearer(value: string | null): string | null {
+  const match = value?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1] ?? null;
+}
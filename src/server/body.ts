@@ -3,6 +3,7 @@
  *  Slow path: full JSON.parse only when .parsed or .forwardBody is accessed
  *  (e.g. Google CCA wrapping, model rewrite). */
 
+import type { ProviderName } from "../auth/store.ts";
 import { resolveModel, rewriteBodyModel } from "../utils/models.ts";
 import * as path from "../utils/path.ts";
 
@@ -23,13 +24,14 @@ export interface ParsedBody {
 const MODEL_RE = /"model"\s*:\s*"([^"]+)"/;
 const STREAM_RE = /"stream"\s*:\s*true\b/;
 
-export function parseBody(raw: string, sub: string): ParsedBody {
+/** `provider` scopes model alias resolution; without it only provider-agnostic aliases apply. */
+export function parseBody(raw: string, sub: string, provider?: ProviderName): ParsedBody {
   const fallbackModel = path.modelFromUrl(sub);
   if (!raw) return { raw, parsed: null, ampModel: fallbackModel, stream: false, forwardBody: raw };
 
   const ampModel = raw.match(MODEL_RE)?.[1] ?? fallbackModel;
   const stream = STREAM_RE.test(raw);
-  const providerModel = ampModel ? resolveModel(ampModel) : null;
+  const providerModel = ampModel ? resolveModel(ampModel, provider) : null;
   const needsRewrite = !!(ampModel && providerModel && providerModel !== ampModel);
 
   let _parsed: Record<string, unknown> | null | undefined;
@@ -0,0 +1,202 @@
+/** Web dashboard at /_connector/ui — one self-contained HTML page, no build step, polling
+ *  /_connector/ui/data for accounts, cooldowns, load, recent requests and upstream fallbacks.
+ *  The page itself is public; its data needs an access token when auth.required is set, which
+ *  the page reads from its URL fragment (`#token=ampcc_...`) so the token stays out of logs. */
+
+import { apiError } from "../utils/responses.ts";
+import { stats } from "../utils/stats.ts";
+import { accountOverview } from "./admin.ts";
+
+export const DASHBOARD_PATH = "/_connector/ui";
+const DATA_PATH = `${DASHBOARD_PATH}/data`;
+const RECENT_REQUESTS = 50;
+const REFRESH_MS = 2000;
+
+export function isDashboardPath(pathname: string): boolean {
+  return pathname === DASHBOARD_PATH || pathname.startsWith(`${DASHBOARD_PATH}/`);
+}
+
+/** The HTML page — carries no data, so it is served without credentials. */
+export function isDashboardPage(pathname: string): boolean {
+  return pathname === DASHBOARD_PATH || pathname === `${DASHBOARD_PATH}/`;
+}
+
+export function handleDashboard(req: Request, pathname: string): Response {
+  if (req.method !== "GET") return apiError(405, `${req.method} not allowed on ${pathname}`, "invalid_request_error");
+  if (isDashboardPage(pathname)) {
+    return new Response(PAGE, {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        "Content-Security-Policy":
+          "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; connect-src 'self'",
+        "Referrer-Policy": "no-referrer",
+      },
+    });
+  }
+  if (pathname === DATA_PATH) return Response.json(dashboardData());
+  return apiError(404, `Unknown dashboard path ${pathname}`, "not_found_error");
+}
+
+export function dashboardData() {
+  return {
+    now: Date.now(),
+    providers: accountOverview(),
+    stats: stats.snapshot(),
+    requests: stats.recentRequests(RECENT_REQUESTS).reverse(),
+  };
+}
+
+const PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>ampcode-connector</title>
+<style>
+  :root { color-scheme: light dark; --dim: #888; --ok: #2a9d4b; --warn: #c98a00; --bad: #d0443c; }
+  body { font: 14px/1.45 ui-sans-serif, system-ui, sans-serif; margin: 0 auto; padding: 24px; max-width: 1100px; }
+  h1 { font-size: 18px; margin: 0; }
+  h2 { font-size: 14px; margin: 28px 0 8px; text-transform: uppercase; letter-spacing: .05em; color: var(--dim); }
+  header { display: flex; align-items: baseline; gap: 16px; }
+  #state { color: var(--dim); font-size: 12px; }
+  .tiles { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 16px; }
+  .tile { border: 1px solid #8884; border-radius: 6px; padding: 8px 14px; min-width: 110px; }
+  .tile b { display: block; font-size: 20px; }
+  .tile span { color: var(--dim); font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 10px 4px 0; border-bottom: 1px solid #8882; white-space: nowrap; }
+  th { color: var(--dim); font-weight: normal; font-size: 12px; }
+  td.num { font-variant-numeric: tabular-nums; }
+  .ok { color: var(--ok); } .warn { color: var(--warn); } .bad { color: var(--bad); } .dim { color: var(--dim); }
+</style>
+</head>
+<body>
+<header><h1>ampcode-connector</h1><span id="state">connecting…</span></header>
+<div class="tiles" id="tiles"></div>
+<h2>Accounts</h2>
+<table><thead><tr><th>Provider</th><th>Account</th><th>Status</th><th>Cooldown</th><th>Threads</th><th>In flight</th><th>Queued</th><th>Token expires</th></tr></thead><tbody id="accounts"></tbody></table>
+<h2>Upstream fallbacks</h2>
+<table><thead><tr><th>Reason</th><th>Requests</th></tr></thead><tbody id="fallbacks"></tbody></table>
+<h2>Recent requests</h2>
+<table><thead><tr><th>Time</th><th>Status</th><th>Route</th><th>Provider</th><th>Account</th><th>Model</th><th>Duration</th><th>Fallback</th></tr></thead><tbody id="requests"></tbody></table>
+<script>
+const token = new URLSearchParams(location.hash.slice(1)).get("token") || sessionStorage.getItem("ampcc-token");
+if (token) sessionStorage.setItem("ampcc-token", token);
+history.replaceState(null, "", location.pathname);
+
+const $ = (id) => document.getElementById(id);
+let data = null;
+let skew = 0;
+
+function cell(text, cls) {
+  const td = document.createElement("td");
+  td.textContent = text;
+  if (cls) td.className = cls;
+  return td;
+}
+
+function rows(tbody, list, render, empty) {
+  tbody.replaceChildren(...list.map((item) => {
+    const tr = document.createElement("tr");
+    tr.append(...render(item));
+    return tr;
+  }));
+  if (list.length === 0) {
+    const tr = document.createElement("tr");
+    const td = cell(empty, "dim");
+    td.colSpan = 8;
+    tr.append(td);
+    tbody.append(tr);
+  }
+}
+
+function duration(ms) {
+  if (ms <= 0) return "—";
+  const s = Math.ceil(ms / 1000);
+  if (s < 60) return s + "s";
+  const m = Math.floor(s / 60);
+  return m < 60 ? m + "m " + (s % 60) + "s" : Math.floor(m / 60) + "h " + (m % 60) + "m";
+}
+
+function render() {
+  if (!data) return;
+  const now = Date.now() + skew;
+  const st = data.stats;
+  const upstream = st.requestsByRoute.AMP_UPSTREAM || 0;
+  $("tiles").replaceChildren(...[
+    [st.totalRequests, "requests"],
+    [upstream, "upstream"],
+    [st.count429, "429s (recent)"],
+    [Math.round(st.averageDurationMs) + "ms", "avg duration"],
+    [st.queuedRequests, "queued (recent)"],
+    [duration(st.uptimeMs), "uptime"],
+  ].map(([value, label]) => {
+    const div = document.createElement("div");
+    div.className = "tile";
+    const b = document.createElement("b");
+    b.textContent = value;
+    const span = document.createElement("span");
+    span.textContent = label;
+    div.append(b, span);
+    return div;
+  }));
+
+  const accounts = data.providers.flatMap((p) => p.accounts.map((a) => ({ ...a, label: p.label })));
+  rows($("accounts"), accounts, (a) => {
+    const cls = a.status === "connected" ? "ok" : a.status === "disabled" ? "bad" : "warn";
+    const cooling = a.cooldown && a.cooldown.until > now;
+    const queued = a.queued.interactive + a.queued.background;
+    return [
+      cell(a.label),
+      cell("#" + a.account + (a.email ? " " + a.email : "")),
+      cell(a.status, cls),
+      cell(cooling ? (a.cooldown.exhausted ? "exhausted " : "") + duration(a.cooldown.until - now) : "—", cooling ? "warn num" : "dim"),
+      cell(a.activeThreads, "num"),
+      cell(a.inFlight, "num"),
+      cell(queued ? queued + " (" + a.queued.interactive + " interactive)" : 0, queued ? "warn num" : "num"),
+      cell(a.expiresAt ? duration(a.expiresAt - now) : "—", "num"),
+    ];
+  }, "No accounts — run ampcode-connector login");
+
+  const fallbacks = Object.entries(st.fallbacksByReason).sort((a, b) => b[1] - a[1]);
+  rows($("fallbacks"), fallbacks, ([reason, count]) => [cell(reason), cell(count, "num")], "None among recent requests");
+
+  rows($("requests"), data.requests, (r) => [
+    cell(new Date(r.timestamp).toLocaleTimeString()),
+    cell(r.statusCode, r.statusCode < 400 ? "ok" : r.statusCode === 429 ? "warn" : "bad"),
+    cell(r.route),
+    cell(r.provider),
+    cell(r.pool ? r.pool + ":" + r.account : "—", r.pool ? "" : "dim"),
+    cell(r.model),
+    cell(r.durationMs + "ms" + (r.queuedMs ? " (queued " + r.queuedMs + "ms)" : ""), "num"),
+    cell(r.fallbackReason || "", "dim"),
+  ], "No requests yet");
+}
+
+async function refresh() {
+  try {
+    const res = await fetch("${DATA_PATH}", { headers: token ? { "x-connector-token": token } : {}, cache: "no-store" });
+    if (res.status === 401) {
+      $("state").textContent = "access token required — open this page as ${DASHBOARD_PATH}#token=ampcc_…";
+      $("state").className = "bad";
+      return;
+    }
+    data = await res.json();
+    skew = data.now - Date.now();
+    $("state").textContent = "updated " + new Date().toLocaleTimeString();
+    $("state").className = "";
+    render();
+  } catch {
+    $("state").textContent = "proxy unreachable — retrying";
+    $("state").className = "bad";
+  }
+}
+
+refresh();
+setInterval(refresh, ${REFRESH_MS});
+setInterval(render, 1000);
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,81 @@
+/** Routing diagnostics on provider responses — which route and account served a request, how many
+ *  local attempts it took and why it ended up on Amp upstream, as `x-connector-*` headers. */
+
+import { randomBytes } from "node:crypto";
+import type { QuotaPool } from "../routing/cooldown.ts";
+import type { RouteResult } from "../routing/router.ts";
+import type { RouteDecision } from "../utils/logger.ts";
+
+export const REQUEST_ID_HEADER = "x-connector-request-id";
+
+/** Where a provider request went. Updated in place by retries and reroutes. */
+export interface RouteTrace {
+  decision: RouteDecision;
+  pool: QuotaPool | null;
+  account: number;
+  /** Requests sent to local accounts, retries and reroutes included. */
+  attempts: number;
+  /** Time spent waiting for concurrency slots. */
+  queuedMs: number;
+  /** Why the request was answered by Amp upstream rather than a local account. */
+  fallbackReason?: string;
+  /** Why a request bound for Amp upstream was refused instead: the local failure under local-only
+   *  mode, or `upstream_budget`. */
+  refusedReason?: string;
+  /** `provider/model` that answered in place of the requested model (routing/fallback.ts). */
+  substituteModel?: string;
+}
+
+/** Local statuses that send a request on to Amp upstream once rerouting gives up. */
+const FALLBACK_REASONS: Record<number, string> = {
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  429: "rate_limited",
+};
+
+export function newRequestId(): string {
+  return randomBytes(6).toString("hex");
+}
+
+export function startTrace(route: RouteResult): RouteTrace {
+  return {
+    decision: route.decision,
+    pool: route.pool,
+    account: route.account,
+    attempts: 0,
+    queuedMs: 0,
+    ...(route.upstreamReason && { fallbackReason: route.upstreamReason }),
+  };
+}
+
+/** Mark the trace as answered by Amp upstream after the local account returned `status`,
+ *  or no concurrency slot was granted in time. */
+export function fellBack(trace: RouteTrace, status: number | "queue_timeout"): void {
+  trace.decision = "AMP_UPSTREAM";
+  trace.fallbackReason = typeof status === "string" ? status : (FALLBACK_REASONS[status] ?? `status_${status}`);
+}
+
+/** Account indexes only — never emails or tokens, the headers reach the client. */
+export function diagnosticHeaders(trace: RouteTrace, requestId: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {
+    "x-connector-route": trace.decision,
+    "x-connector-attempts": String(trace.attempts),
+  };
+  if (trace.queuedMs > 0) headers["x-connector-queued-ms"] = String(trace.queuedMs);
+  if (trace.decision !== "AMP_UPSTREAM" && trace.pool) {
+    headers["x-connector-account"] = `${trace.pool}:${trace.account}`;
+  }
+  if (trace.fallbackReason) headers["x-connector-fallback-reason"] = trace.fallbackReason;
+  if (trace.refusedReason) headers["x-connector-refused-reason"] = trace.refusedReason;
+  if (trace.substituteModel) headers["x-connector-substitute-model"] = trace.substituteModel;
+  if (requestId) headers[REQUEST_ID_HEADER] = requestId;
+  return headers;
+}
+
+/** Copy of `response` with extra headers — upstream responses can have immutable headers. */
+export function withHeaders(response: Response, extra: Record<string, string>): Response {
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries(extra)) headers.set(name, value);
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
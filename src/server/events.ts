@@ -0,0 +1,104 @@
+/** Live event stream at /_connector/events — route decisions, reroutes, cooldown changes, token
+ *  refreshes, upstream fallbacks and finished requests as they happen, for external tooling.
+ *  Server-Sent Events by default, NDJSON with `?format=ndjson` or `Accept: application/x-ndjson`.
+ *  Filter with `?provider=anthropic,codex` (Amp provider or quota pool) and `?type=request,fallback`. */
+
+import { type ConnectorEvent, EVENT_TYPES, type EventType, subscribe } from "../utils/events.ts";
+import { logger } from "../utils/logger.ts";
+import { apiError } from "../utils/responses.ts";
+import * as sse from "../utils/streaming.ts";
+
+export const EVENTS_PATH = "/_connector/events";
+
+/** Keeps idle connections (and the proxies in front of them) from timing out. */
+const HEARTBEAT_MS = 15_000;
+/** Events buffered for a slow client before newer ones are dropped. */
+const MAX_BUFFERED = 1000;
+
+const open = new Set<() => void>();
+
+export function handleEvents(req: Request, url: URL): Response {
+  if (req.method !== "GET")
+    return apiError(405, `${req.method} not allowed on ${EVENTS_PATH}`, "invalid_request_error");
+
+  const types = list(url.searchParams.get("type"));
+  const unknown = types?.filter((t) => !EVENT_TYPES.includes(t as EventType));
+  if (unknown?.length) {
+    return apiError(400, `Unknown event type ${unknown.join(", ")}. Available: ${EVENT_TYPES.join(", ")}`);
+  }
+  const providers = list(url.searchParams.get("provider"));
+  const ndjson =
+    url.searchParams.get("format") === "ndjson" || (req.headers.get("accept") ?? "").includes("application/x-ndjson");
+
+  const matches = (event: ConnectorEvent) =>
+    (!types || types.includes(event.type)) &&
+    (!providers || providers.some((p) => p === event.provider || p === event.pool));
+  const format = (event: ConnectorEvent) =>
+    ndjson ? `${JSON.stringify(event)}\n` : sse.encode({ event: event.type, data: JSON.stringify(event) });
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+  const body = new ReadableStream<Uint8Array>(
+    {
+      start(controller) {
+        let dropped = 0;
+        const send = (text: string) => {
+          if ((controller.desiredSize ?? 0) <= 0) {
+            if (dropped++ === 0) logger.warn("Event stream client is not keeping up — dropping events");
+            return;
+          }
+          dropped = 0;
+          controller.enqueue(encoder.encode(text));
+        };
+        const unsubscribe = subscribe((event) => {
+          if (matches(event)) send(format(event));
+        });
+        // Blank NDJSON lines and SSE comments are ignored by consumers.
+        const heartbeat = setInterval(() => send(ndjson ? "\n" : ": ping\n\n"), HEARTBEAT_MS);
+        let closed = false;
+        close = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          open.delete(close);
+          req.signal.removeEventListener("abort", close);
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the client.
+          }
+        };
+        open.add(close);
+        req.signal.addEventListener("abort", close);
+        if (!ndjson) send(": connected\n\n");
+      },
+      cancel() {
+        close();
+      },
+    },
+    new CountQueuingStrategy({ highWaterMark: MAX_BUFFERED }),
+  );
+
+  logger.debug("Event stream opened", { types, providers, format: ndjson ? "ndjson" : "sse" });
+  return new Response(body, {
+    headers: {
+      "Content-Type": ndjson ? "application/x-ndjson" : "text/event-stream",
+      "Cache-Control": "no-store",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+/** End every open stream — they never finish on their own, so shutdown would wait for its deadline. */
+export function closeEventStreams(): void {
+  for (const close of [...open]) close();
+}
+
+function list(value: string | null): string[] | null {
+  const items = value
+    ?.split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return items?.length ? items : null;
+}
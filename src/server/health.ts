@@ -0,0 +1,101 @@
+/** Liveness and readiness. GET /healthz answers as long as the process serves requests; GET /readyz
+ *  reports whether the stored accounts can serve them — per provider, how many accounts are usable,
+ *  cooling down, exhausted or missing credentials, and when the next cooldown ends. Only accounts
+ *  the router may use count (a profile's `accounts:` list applies). Readiness is `ok` when every
+ *  enabled provider with accounts has a usable one, `degraded` when some do, `down` (503) when
+ *  none do and every request would go to Amp upstream. */
+
+import type { Credentials, ProviderName } from "../auth/store.ts";
+import type { ProxyConfig } from "../config/config.ts";
+import { cooldown } from "../routing/cooldown.ts";
+import { routableAccounts } from "../routing/router.ts";
+
+export const LIVENESS_PATH = "/healthz";
+export const READINESS_PATH = "/readyz";
+
+export type HealthState = "ok" | "degraded" | "down";
+
+/** `no_accounts`: enabled, but nothing logged in (or listed by the profile) — like `disabled`, it
+ *  does not count toward readiness. `missing_credentials`: accounts exist but need a new login. */
+export type ProviderState = "ok" | "cooling" | "exhausted" | "missing_credentials" | "no_accounts" | "disabled";
+
+export interface ProviderHealth {
+  state: ProviderState;
+  accounts: { usable: number; cooling: number; exhausted: number; missingCredentials: number };
+  /** Earliest end of a cooldown on one of the provider's accounts (epoch ms). */
+  nextCooldownEnd?: number;
+}
+
+export interface Readiness {
+  status: HealthState;
+  providers: Record<ProviderName, ProviderHealth>;
+  nextCooldownEnd?: number;
+}
+
+const PROVIDERS: readonly ProviderName[] = ["anthropic", "codex", "google"];
+
+export function isHealthPath(pathname: string): boolean {
+  return pathname === LIVENESS_PATH || pathname === READINESS_PATH;
+}
+
+export function handleHealth(pathname: string, config: ProxyConfig): Response {
+  if (pathname === LIVENESS_PATH) return Response.json({ status: "ok" });
+  const report = readiness(config);
+  return Response.json(report, { status: report.status === "down" ? 503 : 200 });
+}
+
+export function readiness(config: ProxyConfig): Readiness {
+  const providers = Object.fromEntries(
+    PROVIDERS.map((name) => [name, providerHealth(name, config.providers[name], routableAccounts(name, config))]),
+  ) as Record<ProviderName, ProviderHealth>;
+  return overall(providers);
+}
+
+export function overall(providers: Record<ProviderName, ProviderHealth>): Readiness {
+  const applicable = Object.values(providers).filter((p) => p.state !== "disabled" && p.state !== "no_accounts");
+  const ready = applicable.filter((p) => p.state === "ok").length;
+  const status: HealthState = ready === 0 ? "down" : ready === applicable.length ? "ok" : "degraded";
+  const next = earliest(applicable.map((p) => p.nextCooldownEnd));
+  return { status, providers, ...(next && { nextCooldownEnd: next }) };
+}
+
+export function providerHealth(
+  name: ProviderName,
+  enabled: boolean,
+  entries: { account: number; credentials: Credentials }[],
+): ProviderHealth {
+  const accounts = { usable: 0, cooling: 0, exhausted: 0, missingCredentials: 0 };
+  const ends: number[] = [];
+  for (const { account, credentials } of entries) {
+    // An expired access token is fine — it is refreshed on use — but not a missing refresh token.
+    if (!credentials.refreshToken) {
+      accounts.missingCredentials++;
+      continue;
+    }
+    const entry = cooldown.inspect(name, account);
+    if (!entry) {
+      accounts.usable++;
+      continue;
+    }
+    ends.push(entry.until);
+    if (entry.exhausted) accounts.exhausted++;
+    else accounts.cooling++;
+  }
+
+  const next = earliest(ends);
+  return { state: stateOf(enabled, accounts), accounts, ...(next && { nextCooldownEnd: next }) };
+}
+
+function stateOf(enabled: boolean, accounts: ProviderHealth["accounts"]): ProviderState {
+  if (!enabled) return "disabled";
+  if (accounts.usable > 0) return "ok";
+  if (accounts.cooling + accounts.exhausted + accounts.missingCredentials === 0) return "no_accounts";
+  if (accounts.cooling > 0) return "cooling";
+  if (accounts.exhausted > 0) return "exhausted";
+  return "missing_credentials";
+}
+
+function earliest(times: (number | undefined)[]): number | undefined {
+  const defined = times.filter((t): t is number => t !== undefined);
+  return defined.length > 0 ? Math.min(...defined) : undefined;
+}
@@ -0,0 +1,51 @@
+/** GET /metrics — request counters and histograms (utils/metrics.ts) plus gauges read from
+ *  the routing state at scrape time: cooldowns, pinned threads, concurrency slots and OAuth token expiry. */
+
+import * as store from "../auth/store.ts";
+import { affinity } from "../routing/affinity.ts";
+import { concurrency } from "../routing/concurrency.ts";
+import { cooldown, type QuotaPool } from "../routing/cooldown.ts";
+import { gauge, render, requestDuration, requestsTotal } from "../utils/metrics.ts";
+
+const POOLS: readonly QuotaPool[] = ["anthropic", "codex", "google"];
+const STARTED_AT_S = Date.now() / 1000;
+
+export function metricsResponse(): Response {
+  const now = Date.now();
+  const cooling: { labels: Record<string, string>; value: number }[] = [];
+  const exhausted: typeof cooling = [];
+  const threads: typeof cooling = [];
+  const expiry: typeof cooling = [];
+  const inFlight: typeof cooling = [];
+  const queued: typeof cooling = [];
+  const slots = concurrency.snapshot();
+
+  for (const pool of POOLS) {
+    for (const { account, credentials } of store.getAll(pool)) {
+      const labels = { pool, account: String(account) };
+      const entry = cooldown.inspect(pool, account);
+      cooling.push({ labels, value: entry ? Math.max(0, (entry.until - now) / 1000) : 0 });
+      exhausted.push({ labels, value: entry?.exhausted ? 1 : 0 });
+      threads.push({ labels, value: affinity.activeCount(pool, account) });
+      const key = `${pool}:${account}`;
+      inFlight.push({ labels, value: slots.active[key] ?? 0 });
+      for (const priority of ["interactive", "background"] as const) {
+        queued.push({ labels: { ...labels, priority }, value: slots.queued[key]?.[priority] ?? 0 });
+      }
+      expiry.push({ labels, value: credentials.expiresAt / 1000 });
+    }
+  }
+
+  const body = render([
+    requestsTotal,
+    requestDuration,
+    gauge("ampcc_account_cooldown_seconds", "Seconds until the account leaves cooldown (0 when available).", cooling),
+    gauge("ampcc_account_exhausted", "1 when the account's quota is exhausted or it was disabled by a 403.", exhausted),
+    gauge("ampcc_affinity_threads", "Threads currently pinned to the account.", threads),
+    gauge("ampcc_account_in_flight", "Local requests holding a concurrency slot on the account.", inFlight),
+    gauge("ampcc_account_queue_depth", "Requests waiting for a concurrency slot on the account.", queued),
+    gauge("ampcc_token_expiry_timestamp_seconds", "Unix time the stored OAuth access token expires.", expiry),
+    gauge("ampcc_start_time_seconds", "Unix time the proxy started.", [{ labels: {}, value: STARTED_AT_S }]),
+  ]);
+  return new Response(body, { headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" } });
+}
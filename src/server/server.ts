@@ -1,55 +1,183 @@
 /** HTTP server — routes provider requests through local OAuth or Amp upstream. */
 
+import * as tokens from "../auth/tokens.ts";
 import { maybeShowAd } from "../cli/ads.ts";
 import type { ProxyConfig } from "../config/config.ts";
+import * as live from "../config/live.ts";
 import * as rewriter from "../proxy/rewriter.ts";
+import { stopBridges } from "../proxy/socks.ts";
 import * as upstream from "../proxy/upstream.ts";
 import { affinity } from "../routing/affinity.ts";
-import { tryReroute, tryWithCachePreserve } from "../routing/retry.ts";
-import { recordSuccess, routeRequest } from "../routing/router.ts";
+import { budget, estimateTokens, hasLimits } from "../routing/budget.ts";
+import { concurrency, priorityOf } from "../routing/concurrency.ts";
+import { tryModelFallback } from "../routing/fallback.ts";
+import { isLocalOnly, refuseOverBudget, refuseUpstream } from "../routing/local-only.ts";
+import { allPolicies } from "../routing/policy.ts";
+import {
+  forwardTo,
+  type RerouteContext,
+  tryFreeAccount,
+  tryReroute,
+  tryWithCachePreserve,
+  waitForLocalQuota,
+} from "../routing/retry.ts";
+import { providerKey, recordSuccess, routeRequest } from "../routing/router.ts";
 import { handleInternal, isLocalMethod } from "../tools/internal.ts";
+import { CLIENT_CLOSED, clientClosed } from "../utils/abort.ts";
+import { currentRequestId, withRequestId } from "../utils/context.ts";
+import * as events from "../utils/events.ts";
 import { logger } from "../utils/logger.ts";
+import { observeRequest } from "../utils/metrics.ts";
 import * as path from "../utils/path.ts";
 import { apiError } from "../utils/responses.ts";
-import { stats } from "../utils/stats.ts";
+import { type RequestEntry, stats } from "../utils/stats.ts";
+import { adminKey, handleAdmin, isAdminPath } from "./admin.ts";
+import { checkAccess } from "./auth.ts";
 import { type ParsedBody, parseBody } from "./body.ts";
+import { handleDashboard, isDashboardPath } from "./dashboard.ts";
+import { diagnosticHeaders, fellBack, newRequestId, type RouteTrace, startTrace, withHeaders } from "./diagnostics.ts";
+import { closeEventStreams, EVENTS_PATH, handleEvents } from "./events.ts";
+import { handleHealth, isHealthPath, readiness } from "./health.ts";
+import { metricsResponse } from "./metrics.ts";
+import { bindPrivate, clearStaleSocket, listensOnTcp, socketPath, startShim } from "./socket.ts";
+import { saveBudget, saveState } from "./state.ts";
+import { scheme, tlsFiles } from "./tls.ts";
 
-export function startServer(config: ProxyConfig): ReturnType<typeof Bun.serve> {
-  const server = Bun.serve({
-    port: config.port,
-    hostname: config.hostname,
-    idleTimeout: 255, // seconds — LLM streaming responses can take minutes
-
-    async fetch(req) {
-      const startTime = Date.now();
-      const url = new URL(req.url);
-      let status = 500;
-      try {
-        const response = await handle(req, url, config);
-        status = response.status;
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "::1"]);
+
+/** Set on the first shutdown signal: new requests get 503 while in-flight ones finish. */
+let draining = false;
+
+export function isDraining(): boolean {
+  return draining;
+}
+
+/** Binds to the startup config's hostname/port and/or Unix socket; every request reads the live config snapshot. */
+export async function startServer(): Promise<void> {
+  const config = live.get();
+  const servers: ReturnType<typeof Bun.serve>[] = [];
+  const fetch = (req: Request): Promise<Response> => withRequestId(newRequestId(), () => serve(req));
+  const serve = async (req: Request): Promise<Response> => {
+    const startTime = Date.now();
+    const url = new URL(req.url);
+    let status = 500;
+    try {
+      if (draining) {
+        // Requests on kept-alive connections can still arrive after the listeners closed.
+        status = 503;
+        const response = apiError(503, "ampcode-connector is shutting down", "overloaded_error");
+        response.headers.set("Connection", "close");
+        response.headers.set("Retry-After", "5");
         return response;
-      } catch (err) {
-        logger.error("Unhandled server error", { error: String(err) });
-        return apiError(status, "Internal proxy error");
-      } finally {
-        logger.info(`${req.method} ${url.pathname}${url.search} ${status}`, { duration: Date.now() - startTime });
       }
-    },
-  });
+      const config = live.get();
+      const access = checkAccess(req, url.pathname, config);
+      if (!access.ok) {
+        status = access.response.status;
+        return access.response;
+      }
+      const response = await handle(access.req, url, config);
+      status = response.status;
+      return response;
+    } catch (err) {
+      if (req.signal.aborted) {
+        // Reading an upstream body the client no longer waits for throws once it aborts.
+        status = CLIENT_CLOSED;
+        return clientClosed();
+      }
+      logger.error("Unhandled server error", { error: String(err) });
+      return apiError(status, "Internal proxy error");
+    } finally {
+      logger.info(`${req.method} ${url.pathname}${url.search} ${status}`, { duration: Date.now() - startTime });
+    }
+  };
+
+  const unix = socketPath(config);
+  if (unix) {
+    await clearStaleSocket(unix);
+    servers.push(bindPrivate(() => Bun.serve({ unix, fetch })));
+    logger.info(`ampcode-connector listening on ${unix}`);
+  }
+
+  if (listensOnTcp(config)) {
+    const tls = tlsFiles(config);
+    servers.push(
+      Bun.serve({
+        port: config.port,
+        hostname: config.hostname,
+        idleTimeout: 255, // seconds — LLM streaming responses can take minutes
+        ...(tls && { tls: { cert: Bun.file(tls.cert), key: Bun.file(tls.key) } }),
+        fetch,
+      }),
+    );
+    logger.info(`ampcode-connector listening on ${scheme(config)}://${config.hostname}:${config.port}`);
+  }
+
+  const shim = unix && config.socket?.shimPort ? startShim(unix, config.socket.shimPort) : null;
 
   affinity.startCleanup();
-  logger.info(`ampcode-connector listening on http://${config.hostname}:${config.port}`);
+  adminKey(); // created up front so `ctl` finds it
+  warnOnOpenAccess(config);
 
-  const shutdown = () => {
-    logger.info("Shutting down...");
-    server.stop();
-    process.exit(0);
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (draining) {
+      logger.warn(`${signal} again — exiting without waiting for ${inFlight(servers)} request(s)`);
+      for (const server of servers) server.stop(true);
+      saveState();
+      process.exit(1);
+    }
+    draining = true;
+    void drain(servers, shim);
   };
 
   process.on("SIGTERM", shutdown);
   process.on("SIGINT", shutdown);
+}
+
+/** Stop accepting connections, let in-flight responses (long SSE streams included) finish
+ *  until `drainTimeoutS`, then persist runtime state and exit. */
+async function drain(servers: ReturnType<typeof Bun.serve>[], shim: { stop(force?: boolean): void } | null) {
+  const { drainTimeoutS } = live.get();
+  live.stopWatching();
+  shim?.stop();
+  closeEventStreams();
+
+  const pending = inFlight(servers);
+  if (pending > 0) {
+    logger.info(
+      `Shutting down — draining ${pending} in-flight request(s), up to ${drainTimeoutS}s (signal again to force)`,
+    );
+  } else {
+    logger.info("Shutting down...");
+  }
+
+  const stopped = Promise.all(servers.map((server) => server.stop())).then(() => true);
+  const drained = await Promise.race([stopped, Bun.sleep(drainTimeoutS * 1000).then(() => false)]);
+  if (!drained) {
+    logger.warn(`Drain deadline reached — closing ${inFlight(servers)} unfinished request(s)`);
+    for (const server of servers) server.stop(true);
+  }
+
+  shim?.stop(true);
+  stopBridges();
+  saveState();
+  process.exit(drained ? 0 : 1);
+}
+
+function inFlight(servers: ReturnType<typeof Bun.serve>[]): number {
+  return servers.reduce((sum, server) => sum + server.pendingRequests, 0);
+}
 
-  return server;
+function warnOnOpenAccess(config: ProxyConfig): void {
+  if (config.auth.required) {
+    if (tokens.count() === 0) {
+      logger.warn("auth.required is set but no access tokens exist — create one with `ampcode-connector token create`");
+    }
+  } else if (listensOnTcp(config) && !LOOPBACK_HOSTS.has(config.hostname)) {
+    logger.warn(
+      `Listening on ${config.hostname} without auth.required — anyone who can reach the port uses your accounts`,
+    );
+  }
 }
 
 async function handle(req: Request, url: URL, config: ProxyConfig): Promise<Response> {
@@ -59,6 +187,16 @@ async function handle(req: Request, url: URL, config: ProxyConfig): Promise<Resp
     return healthCheck(config);
   }
 
+  if (isHealthPath(pathname) && req.method === "GET") return handleHealth(pathname, config);
+
+  if (pathname === "/metrics" && req.method === "GET") return metricsResponse();
+
+  if (isAdminPath(pathname)) return handleAdmin(req, pathname, url);
+
+  if (isDashboardPath(pathname)) return handleDashboard(req, pathname);
+
+  if (pathname === EVENTS_PATH) return handleEvents(req, url);
+
   if (path.browser(pathname)) {
     const target = new URL(pathname + search, config.ampUpstreamUrl);
     return Response.redirect(target.toString(), 302);
@@ -88,59 +226,155 @@ async function handleProvider(
   const threadId = req.headers.get("x-amp-thread-id") ?? req.headers.get("x-session-id") ?? undefined;
 
   const rawBody = req.method === "POST" ? await req.text() : "";
-  const body = parseBody(rawBody, sub);
+  const body = parseBody(rawBody, sub, providerKey(providerName));
   const ampModel = body.ampModel;
   const route = routeRequest(providerName, ampModel, config, threadId);
 
   logger.info(
     `ROUTE ${route.decision} provider=${providerName} model=${ampModel ?? "?"} account=${route.account} sub=${sub}`,
   );
+  const trace = startTrace(route);
 
   let response: Response;
+  const ctx: RerouteContext = {
+    providerName,
+    ampModel,
+    config,
+    sub,
+    body,
+    headers: req.headers,
+    rewrite: ampModel ? rewriter.rewrite(ampModel) : undefined,
+    threadId,
+    signal: req.signal,
+    priority: priorityOf(req.headers, threadId),
+  };
 
-  if (route.handler) {
-    const rewrite = ampModel ? rewriter.rewrite(ampModel) : undefined;
-    const handlerResponse = await route.handler.forward(sub, body, req.headers, rewrite, route.account);
+  if (route.handler && route.pool) {
+    const handlerResponse = await forwardTo(
+      ctx,
+      { handler: route.handler, pool: route.pool, account: route.account },
+      trace,
+    );
 
-    if (
-      (handlerResponse.status === 429 || handlerResponse.status === 403 || handlerResponse.status === 404) &&
-      route.pool
-    ) {
-      const ctx = { providerName, ampModel, config, sub, body, headers: req.headers, rewrite, threadId };
+    if (!handlerResponse) {
+      const freed = await tryFreeAccount(ctx, route, trace);
+      if (freed) {
+        response = freed;
+      } else {
+        fellBack(trace, "queue_timeout");
+        response = await localOrUpstream(req, ctx, trace);
+      }
+    } else if (req.signal.aborted) {
+      // Client went away — no retry, no fallback, and no verdict on the account.
+      response = handlerResponse;
+    } else if (handlerResponse.status === 429 || handlerResponse.status === 403 || handlerResponse.status === 404) {
       // 429: try short wait to preserve prompt cache first
       const cached =
-        handlerResponse.status === 429
-          ? await tryWithCachePreserve(route, sub, body, req.headers, rewrite, handlerResponse)
-          : null;
+        handlerResponse.status === 429 ? await tryWithCachePreserve(ctx, route, handlerResponse, trace) : null;
       if (cached) {
         response = cached;
       } else {
-        const rerouted = await tryReroute(ctx, route, handlerResponse.status);
-        response = rerouted ?? (await fallbackUpstream(req, body, config));
+        const rerouted = await tryReroute(ctx, route, handlerResponse.status, trace);
+        if (rerouted) {
+          response = rerouted;
+        } else {
+          fellBack(trace, handlerResponse.status);
+          response = await localOrUpstream(req, ctx, trace);
+        }
       }
     } else if (handlerResponse.status === 401) {
       logger.debug("Local provider denied, falling back to upstream");
-      response = await fallbackUpstream(req, body, config);
+      fellBack(trace, 401);
+      response = await localOrUpstream(req, ctx, trace);
     } else {
-      if (route.pool) recordSuccess(route.pool, route.account);
+      recordSuccess(route.pool, route.account);
       response = handlerResponse;
     }
+  } else if (route.decision === "REJECTED") {
+    response = apiError(403, route.rejection ?? "Request rejected by routing rule", "permission_error");
   } else {
-    response = await fallbackUpstream(req, body, config);
+    response = await localOrUpstream(req, ctx, trace);
   }
 
-  stats.record({
+  const entry: RequestEntry = {
     timestamp: new Date().toISOString(),
-    route: route.decision,
+    route: trace.decision,
     provider: providerName,
+    ...(trace.decision !== "AMP_UPSTREAM" && trace.pool && { pool: trace.pool, account: trace.account }),
     model: ampModel ?? "unknown",
     statusCode: response.status,
     durationMs: Date.now() - startTime,
-  });
+    ...(trace.queuedMs > 0 && { queuedMs: trace.queuedMs }),
+    ...(trace.fallbackReason && { fallbackReason: trace.fallbackReason }),
+    ...(trace.refusedReason && { refusedReason: trace.refusedReason }),
+    ...(trace.substituteModel && { substituteModel: trace.substituteModel }),
+  };
+  stats.record(entry);
+  observeRequest(entry);
+  if (trace.fallbackReason) {
+    events.emit("fallback", { provider: providerName, model: entry.model, reason: trace.fallbackReason });
+  }
+  events.emit("request", { ...entry });
 
   maybeShowAd();
 
-  return response;
+  return withHeaders(response, diagnosticHeaders(trace, currentRequestId()));
+}
+
+/** Amp upstream — unless an equivalent model on another local pool can answer, local-only mode
+ *  refuses, or the upstream budget is spent. A routing rule that sent the request upstream skips
+ *  the first two, but still counts against the budget. */
+async function localOrUpstream(req: Request, ctx: RerouteContext, trace: RouteTrace): Promise<Response> {
+  const model = ctx.ampModel ?? "unknown";
+  if (trace.fallbackReason !== "rule") {
+    const substitute = await tryModelFallback(ctx, trace);
+    if (substitute) return substitute;
+    if (isLocalOnly(ctx.config, ctx.providerName, ctx.ampModel)) {
+      logger.warn(`LOCAL ONLY: not falling back to Amp upstream (${trace.fallbackReason})`, {
+        provider: ctx.providerName,
+        model,
+      });
+      refused(trace, trace.fallbackReason);
+      return refuseUpstream(ctx.config, ctx.providerName, ctx.ampModel, trace.refusedReason);
+    }
+  }
+
+  let spent = budget.spent(ctx.config.upstreamBudget, ctx.ampModel);
+  if (spent && ctx.config.upstreamBudget?.onExhausted === "wait" && trace.fallbackReason !== "rule") {
+    const served = await waitForLocalQuota(ctx, trace);
+    if (served) return served;
+    spent = budget.spent(ctx.config.upstreamBudget, ctx.ampModel);
+  }
+  if (spent) {
+    logger.warn(`UPSTREAM BUDGET spent: ${spent.limit} ${spent.kind} ${spent.window} (${spent.scope})`, {
+      provider: ctx.providerName,
+      model,
+    });
+    refused(trace, "upstream_budget");
+    return refuseOverBudget(ctx.config, ctx.providerName, spent);
+  }
+
+  if (!hasLimits(ctx.config.upstreamBudget)) return fallbackUpstream(req, ctx.body, ctx.config);
+  // Reserved in the same tick as the check above, so concurrent requests cannot overshoot the cap;
+  // failed and abandoned calls give it back.
+  const release = budget.reserve(ctx.config.upstreamBudget, ctx.ampModel, estimateTokens(ctx.body.raw));
+  saveBudget();
+  let response: Response | undefined;
+  try {
+    response = await fallbackUpstream(req, ctx.body, ctx.config);
+    return response;
+  } finally {
+    if (!response?.ok || req.signal.aborted) {
+      release();
+      saveBudget();
+    }
+  }
+}
+
+function refused(trace: RouteTrace, reason: string | undefined): void {
+  trace.decision = "REJECTED";
+  trace.refusedReason = reason;
+  delete trace.fallbackReason;
 }
 
 /** Fall back to Amp upstream when local providers fail. */
@@ -149,17 +383,24 @@ function fallbackUpstream(req: Request, body: ParsedBody, config: ProxyConfig):
     method: req.method,
     headers: req.headers,
     body: body.raw || undefined,
+    signal: req.signal,
   });
   return upstream.forward(upstreamReq, config.ampUpstreamUrl, config.ampApiKey);
 }
 
 function healthCheck(config: ProxyConfig): Response {
+  const { status, providers, nextCooldownEnd } = readiness(config);
   return Response.json({
-    status: "ok",
+    status,
     service: "ampcode-connector",
+    pid: process.pid,
     port: config.port,
     upstream: config.ampUpstreamUrl,
-    providers: config.providers,
+    providers,
+    ...(nextCooldownEnd && { nextCooldownEnd }),
+    ...(hasLimits(config.upstreamBudget) && { upstreamBudget: budget.snapshot(config.upstreamBudget) }),
+    routing: allPolicies(),
+    concurrency: concurrency.snapshot(),
     stats: stats.snapshot(),
   });
 }
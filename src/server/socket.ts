@@ -0,0 +1,133 @@
+/** Unix domain socket listener — the `socket` config block. The socket file is created 0600, so
+ *  only the owning user can reach the proxy. Amp and other TCP-only clients go through the
+ *  optional shim: a loopback TCP port whose connections are piped byte-for-byte to the socket. */
+
+import { existsSync, lstatSync, unlinkSync } from "node:fs";
+import { homedir } from "node:os";
+import type { Socket, TCPSocketListener } from "bun";
+import type { ProxyConfig } from "../config/config.ts";
+import { logger } from "../utils/logger.ts";
+import { flush, type Outbox, send } from "../utils/sockets.ts";
+import { scheme } from "./tls.ts";
+
+export interface SocketConfig {
+  path: string;
+  /** Keep listening on hostname:port as well. Off by default — the socket replaces the TCP port. */
+  tcp?: boolean;
+  /** Loopback TCP port forwarding to the socket, for clients that cannot use one (Amp). */
+  shimPort?: number;
+}
+
+interface ShimState extends Outbox {
+  /** Bytes from the client while the socket connection is being opened. */
+  pending: Uint8Array[];
+  upstream: Socket<Outbox> | null;
+  closed: boolean;
+}
+
+export function socketPath(config: ProxyConfig): string | undefined {
+  const path = config.socket?.path;
+  return path && (path.startsWith("~/") ? `${homedir()}${path.slice(1)}` : path);
+}
+
+export function listensOnTcp(config: ProxyConfig): boolean {
+  return !config.socket?.path || config.socket.tcp === true;
+}
+
+/** URL for clients that speak TCP — the TCP listener, else the shim. Undefined when socket-only. */
+export function clientUrl(config: ProxyConfig): string | undefined {
+  if (listensOnTcp(config)) return `${scheme(config)}://localhost:${config.port}`;
+  if (config.socket?.shimPort) return `http://localhost:${config.socket.shimPort}`;
+  return undefined;
+}
+
+/** Remove a socket file left behind by a crashed instance. Refuses when another instance still
+ *  answers on it, or when the path is not a socket. */
+export async function clearStaleSocket(path: string): Promise<void> {
+  if (!existsSync(path)) return;
+  if (!lstatSync(path).isSocket()) throw new Error(`${path} exists and is not a socket`);
+  const alive = await Bun.connect({ unix: path, socket: { data() {} } }).then(
+    (probe) => {
+      probe.end();
+      return true;
+    },
+    () => false,
+  );
+  if (alive) throw new Error(`Another process is already listening on ${path}`);
+  unlinkSync(path);
+}
+
+/** Run `bind` under umask 0177, so the socket file is created 0600 — it is never reachable by
+ *  other users, not even between bind and a later chmod. */
+export function bindPrivate<T>(bind: () => T): T {
+  const previous = process.umask(0o177);
+  try {
+    return bind();
+  } finally {
+    process.umask(previous);
+  }
+}
+
+/** Start the loopback TCP → socket forwarder. */
+export function startShim(path: string, port: number): TCPSocketListener<ShimState> {
+  const listener = Bun.listen<ShimState>({
+    hostname: "127.0.0.1",
+    port,
+    socket: {
+      open(client) {
+        client.data = { pending: [], upstream: null, closed: false, queue: [] };
+        connect(client, path);
+      },
+      data(client, chunk) {
+        if (client.data.upstream) send(client.data.upstream, chunk);
+        else client.data.pending.push(chunk.slice());
+      },
+      drain: flush,
+      close(client) {
+        client.data.closed = true;
+        client.data.upstream?.end();
+      },
+      error(client, err) {
+        logger.debug("Socket shim client error", { error: String(err) });
+        client.data.upstream?.end();
+      },
+    },
+  });
+  logger.info(`Socket shim listening on http://127.0.0.1:${listener.port} → ${path}`);
+  return listener;
+}
+
+function connect(client: Socket<ShimState>, path: string): void {
+  Bun.connect<Outbox>({
+    unix: path,
+    socket: {
+      open(upstream) {
+        upstream.data = { queue: [] };
+      },
+      data(_upstream, chunk) {
+        if (!client.data.closed) send(client, chunk);
+      },
+      drain: flush,
+      close() {
+        if (!client.data.closed) client.end();
+      },
+      error(_upstream, err) {
+        logger.debug("Socket shim upstream error", { error: String(err) });
+      },
+    },
+  }).then(
+    (upstream) => {
+      if (client.data.closed) {
+        upstream.end();
+        return;
+      }
+      client.data.upstream = upstream;
+      for (const chunk of client.data.pending) send(upstream, chunk);
+      client.data.pending = [];
+    },
+    (err) => {
+      logger.warn(`Socket shim cannot reach ${path}`, { error: String(err) });
+      client.end();
+    },
+  );
+}
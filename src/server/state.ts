@@ -0,0 +1,85 @@
+/** Runtime state carried across restarts — cooldowns (so exhausted accounts stay benched),
+ *  thread affinity and request stats. Saved to credentials.db at shutdown and restored at
+ *  startup; anything that expired in between is dropped on load. Upstream budget usage is
+ *  saved on every change instead, so that a crash cannot hand out a fresh budget. */
+
+import * as store from "../auth/store.ts";
+import { affinity } from "../routing/affinity.ts";
+import { budget } from "../routing/budget.ts";
+import { cooldown } from "../routing/cooldown.ts";
+import { logger } from "../utils/logger.ts";
+import { stats } from "../utils/stats.ts";
+
+/** Saved state older than this is stale — cooldowns and affinity would have lapsed anyway. */
+const MAX_AGE_MS = 24 * 3600_000;
+
+interface Snapshot {
+  cooldown: ReturnType<typeof cooldown.dump>;
+  affinity: ReturnType<typeof affinity.dump>;
+  stats: ReturnType<typeof stats.dump>;
+}
+
+function table() {
+  const db = store.database();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS runtime_state (
+      name     TEXT PRIMARY KEY,
+      data     TEXT NOT NULL,
+      saved_at INTEGER NOT NULL
+    )
+  `);
+  return db;
+}
+
+export function saveState(): void {
+  const snapshot: Snapshot = { cooldown: cooldown.dump(), affinity: affinity.dump(), stats: stats.dump() };
+  try {
+    table()
+      .prepare("INSERT OR REPLACE INTO runtime_state (name, data, saved_at) VALUES (?, ?, ?)")
+      .run("routing", JSON.stringify(snapshot), Date.now());
+    logger.debug("Runtime state saved", {
+      cooldowns: Object.keys(snapshot.cooldown).length,
+      threads: Object.keys(snapshot.affinity).length,
+    });
+  } catch (err) {
+    logger.warn("Failed to save runtime state", { error: String(err) });
+  }
+}
+
+export function restoreState(): void {
+  try {
+    const row = table()
+      .prepare<{ data: string; saved_at: number }, [string]>("SELECT data, saved_at FROM runtime_state WHERE name = ?")
+      .get("routing");
+    if (!row || Date.now() - row.saved_at > MAX_AGE_MS) return;
+    const snapshot = JSON.parse(row.data) as Partial<Snapshot>;
+    if (snapshot.cooldown) cooldown.load(snapshot.cooldown);
+    if (snapshot.affinity) affinity.load(snapshot.affinity);
+    if (snapshot.stats) stats.load(snapshot.stats);
+  } catch (err) {
+    logger.warn("Ignoring unreadable runtime state", { error: String(err) });
+  }
+  restoreBudget();
+}
+
+export function saveBudget(): void {
+  try {
+    table()
+      .prepare("INSERT OR REPLACE INTO runtime_state (name, data, saved_at) VALUES (?, ?, ?)")
+      .run("upstream_budget", JSON.stringify(budget.dump()), Date.now());
+  } catch (err) {
+    logger.warn("Failed to save upstream budget", { error: String(err) });
+  }
+}
+
+/** Load saved budget usage — at startup, and by the login dashboard to show what the proxy spent. */
+export function restoreBudget(): void {
+  try {
+    const row = table()
+      .prepare<{ data: string }, [string]>("SELECT data FROM runtime_state WHERE name = ?")
+      .get("upstream_budget");
+    if (row) budget.load(JSON.parse(row.data));
+  } catch (err) {
+    logger.warn("Ignoring unreadable upstream budget", { error: String(err) });
+  }
+}
@@ -0,0 +1,187 @@
+/** HTTPS for the listener — the `tls` config block. User-supplied cert/key files are served as-is;
+ *  otherwise a local CA and a certificate it signs for the listen hosts are generated with openssl
+ *  and kept in a `tls/` directory next to credentials.db. Clients have to trust that CA. */
+
+import { randomBytes } from "node:crypto";
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { isIP } from "node:net";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { dataDir } from "../auth/store.ts";
+import type { ProxyConfig } from "../config/config.ts";
+import { logger } from "../utils/logger.ts";
+
+export interface TlsConfig {
+  enabled: boolean;
+  /** PEM certificate (chain) and private key — set both, or neither to use the generated CA. */
+  cert?: string;
+  key?: string;
+  /** Extra DNS names / IPs for the generated certificate, besides localhost and `hostname`. */
+  hosts?: string[];
+}
+
+export interface TlsFiles {
+  cert: string;
+  key: string;
+  /** Generated CA certificate clients must trust — absent for user-supplied certificates. */
+  ca?: string;
+}
+
+const CA_DAYS = 3650;
+/** Apple clients reject server certificates valid for longer than 825 days. */
+const LEAF_DAYS = 825;
+/** Re-issue the generated certificate when it expires within this window. */
+const RENEW_BEFORE_S = 30 * 86_400;
+/** Bind-all addresses are not names a client connects to. */
+const WILDCARD_HOSTS = new Set(["0.0.0.0", "::", "[::]"]);
+const EC_KEY = ["-newkey", "ec", "-pkeyopt", "ec_paramgen_curve:prime256v1", "-nodes"];
+
+export function scheme(config: ProxyConfig): "http" | "https" {
+  return config.tls.enabled ? "https" : "http";
+}
+
+/** Certificate and key to serve, generating them first when needed. Undefined when TLS is off. */
+export function tlsFiles(config: ProxyConfig): TlsFiles | undefined {
+  const { tls } = config;
+  if (!tls.enabled) return undefined;
+
+  if (tls.cert || tls.key) {
+    if (!tls.cert || !tls.key) throw new Error("tls.cert and tls.key must be set together");
+    const files = { cert: expandHome(tls.cert), key: expandHome(tls.key) };
+    for (const file of [files.cert, files.key]) {
+      if (!existsSync(file)) throw new Error(`TLS file ${file} does not exist`);
+    }
+    return files;
+  }
+  return ensureGenerated(certHosts(config));
+}
+
+/** Names the generated certificate covers: loopback, the listen hostname, then `tls.hosts`. */
+export function certHosts(config: ProxyConfig): string[] {
+  const hosts = ["localhost", "127.0.0.1", "::1"];
+  if (!WILDCARD_HOSTS.has(config.hostname)) hosts.push(config.hostname);
+  hosts.push(...(config.tls.hosts ?? []));
+  return [...new Set(hosts.map((h) => h.replace(/^\[|\]$/g, "").toLowerCase()))];
+}
+
+/** How to make clients accept the generated CA. Amp runs on Node, which ignores the OS store. */
+export function trustHint(ca: string): string[] {
+  return [
+    `Amp / Node:  export NODE_EXTRA_CA_CERTS=${ca}`,
+    `macOS:       security add-trusted-cert -r trustRoot -k ~/Library/Keychains/login.keychain-db ${ca}`,
+    `Debian:      sudo cp ${ca} /usr/local/share/ca-certificates/ampcode-connector.crt && sudo update-ca-certificates`,
+    `Fedora:      sudo trust anchor ${ca}`,
+  ];
+}
+
+function ensureGenerated(hosts: string[]): TlsFiles {
+  const dir = join(dataDir(), "tls");
+  const ca = join(dir, "ca.pem");
+  const caKey = join(dir, "ca-key.pem");
+  const cert = join(dir, "cert.pem");
+  const key = join(dir, "key.pem");
+  const hostsFile = join(dir, "cert.hosts");
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  let reissue = false;
+  if (!existsSync(ca) || !existsSync(caKey)) {
+    openssl([
+      "req",
+      "-x509",
+      "-new",
+      ...EC_KEY,
+      "-keyout",
+      caKey,
+      "-out",
+      ca,
+      "-days",
+      String(CA_DAYS),
+      "-subj",
+      "/CN=ampcode-connector local CA",
+      "-addext",
+      "basicConstraints=critical,CA:TRUE",
+      "-addext",
+      "keyUsage=critical,keyCertSign,cRLSign",
+    ]);
+    chmodSync(caKey, 0o600);
+    logger.info(`Generated local CA ${ca} — clients must trust it (run setup for instructions)`);
+    reissue = true;
+  }
+
+  const san = hosts.map((h) => (isIP(h) ? `IP:${h}` : `DNS:${h}`)).join(",");
+  const issuedFor = existsSync(hostsFile) ? readFileSync(hostsFile, "utf-8").trim() : "";
+  if (reissue || issuedFor !== san || !existsSync(cert) || !existsSync(key) || expiresSoon(cert)) {
+    issue({ ca, caKey, cert, key, dir }, hosts[0] ?? "localhost", san);
+    writeFileSync(hostsFile, `${san}\n`);
+    logger.info(`Issued TLS certificate for ${hosts.join(", ")}`);
+  }
+  return { cert, key, ca };
+}
+
+function issue(
+  paths: { ca: string; caKey: string; cert: string; key: string; dir: string },
+  commonName: string,
+  san: string,
+): void {
+  const csr = join(paths.dir, "cert.csr");
+  const ext = join(paths.dir, "cert.ext");
+  // An extfile rather than -copy_extensions keeps this working with LibreSSL (macOS).
+  writeFileSync(
+    ext,
+    [
+      "basicConstraints=critical,CA:FALSE",
+      "keyUsage=critical,digitalSignature,keyEncipherment",
+      "extendedKeyUsage=serverAuth",
+      `subjectAltName=${san}`,
+      "",
+    ].join("\n"),
+  );
+  try {
+    openssl(["req", "-new", ...EC_KEY, "-keyout", paths.key, "-out", csr, "-subj", `/CN=${commonName}`]);
+    chmodSync(paths.key, 0o600);
+    openssl([
+      "x509",
+      "-req",
+      "-in",
+      csr,
+      "-CA",
+      paths.ca,
+      "-CAkey",
+      paths.caKey,
+      "-set_serial",
+      `0x${randomBytes(16).toString("hex")}`,
+      "-days",
+      String(LEAF_DAYS),
+      "-sha256",
+      "-extfile",
+      ext,
+      "-out",
+      paths.cert,
+    ]);
+  } finally {
+    rmSync(csr, { force: true });
+    rmSync(ext, { force: true });
+  }
+}
+
+function expiresSoon(cert: string): boolean {
+  const proc = Bun.spawnSync(["openssl", "x509", "-checkend", String(RENEW_BEFORE_S), "-noout", "-in", cert]);
+  return proc.exitCode !== 0;
+}
+
+function openssl(args: string[]): void {
+  let proc: ReturnType<typeof Bun.spawnSync>;
+  try {
+    proc = Bun.spawnSync(["openssl", ...args], { stdout: "pipe", stderr: "pipe" });
+  } catch {
+    throw new Error("openssl not found — install it, or set tls.cert and tls.key to existing files");
+  }
+  if (proc.exitCode !== 0) {
+    const detail = proc.stderr?.toString().trim().split("\n")[0];
+    throw new Error(`openssl ${args[0]} failed${detail ? `: ${detail}` : ""}`);
+  }
+}
+
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? `${homedir()}${path.slice(1)}` : path;
+}
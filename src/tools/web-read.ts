@@ -2,6 +2,7 @@
 
 import TurndownService from "turndown";
 import { gfm } from "turndown-plugin-gfm";
+import { proxyOption } from "../proxy/egress.ts";
 import { logger } from "../utils/logger.ts";
 
 interface WebReadParams {
@@ -117,6 +118,7 @@ async function fetchPage(url: string): Promise<FetchOk | FetchErr> {
   let response: Response;
   try {
     response = await fetch(url, {
+      ...proxyOption(),
       signal: AbortSignal.timeout(FETCH.TIMEOUT_MS),
       redirect: "follow",
       headers: { "User-Agent": FETCH.USER_AGENT },
@@ -1,18 +1,12 @@
-/** Local handler for webSearch2 — searches via Exa API. */
+/** Local handler for webSearch2 — searches via Exa API.
+ *  exa-js fetches through a client it picks at import time, which cannot take the outbound proxy,
+ *  so the search endpoint is called directly; exa-js still supplies the request/response types. */
 
-import Exa from "exa-js";
+import type { SearchResponse as ExaSearchResponse, RegularSearchOptions } from "exa-js";
+import { proxyOption } from "../proxy/egress.ts";
 import { logger } from "../utils/logger.ts";
 
-let _exa: InstanceType<typeof Exa> | null = null;
-let _exaKey: string | null = null;
-
-function getExa(apiKey: string): InstanceType<typeof Exa> {
-  if (!_exa || _exaKey !== apiKey) {
-    _exa = new Exa(apiKey);
-    _exaKey = apiKey;
-  }
-  return _exa;
-}
+const EXA_SEARCH_URL = "https://api.exa.ai/search";
 
 interface SearchParams {
   objective: string;
@@ -35,14 +29,21 @@ export async function handleSearch(params: SearchParams, exaApiKey: string): Pro
   const { objective, searchQueries, maxResults = 5 } = params;
   const query = searchQueries?.length ? searchQueries.join(" ") : objective;
 
-  const exa = getExa(exaApiKey);
-  const response = await exa.search(query, {
+  const options = {
     numResults: maxResults,
     type: "auto",
     contents: {
       highlights: { query: objective },
     },
+  } satisfies RegularSearchOptions;
+  const res = await fetch(EXA_SEARCH_URL, {
+    ...proxyOption(),
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-api-key": exaApiKey },
+    body: JSON.stringify({ query, ...options }),
   });
+  if (!res.ok) throw new Error(`Exa search failed (${res.status}): ${(await res.text()).slice(0, 200)}`);
+  const response = (await res.json()) as ExaSearchResponse<typeof options.contents>;
 
   const results: SearchResultItem[] = response.results.map((r) => ({
     title: r.title ?? "",
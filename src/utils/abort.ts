@@ -0,0 +1,27 @@
+/** Client disconnects — requests carry the incoming request's AbortSignal so upstream fetches,
+ *  retry waits and stream transforms stop as soon as the client goes away. */
+
+import { apiError } from "./responses.ts";
+
+/** Status recorded for requests the client abandoned (nginx's "client closed request"). */
+export const CLIENT_CLOSED = 499;
+
+/** `Bun.sleep` that ends early when `signal` aborts. Resolves either way — check `signal.aborted` after. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) return Bun.sleep(ms);
+  if (signal.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+}
+
+/** Placeholder response for an aborted request — nobody reads it, but stats and logs record it. */
+export function clientClosed(): Response {
+  return apiError(CLIENT_CLOSED, "Client closed request");
+}
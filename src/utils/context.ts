@@ -0,0 +1,13 @@
+/** Per-request context carried across awaits — the request id tags log lines and events. */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+const requestContext = new AsyncLocalStorage<string>();
+
+export function withRequestId<T>(id: string, fn: () => T): T {
+  return requestContext.run(id, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore();
+}
@@ -0,0 +1,50 @@
+/** In-process event bus — structured events for external tooling, streamed by
+ *  GET /_connector/events (server/events.ts). Emitting without subscribers costs nothing. */
+
+import { currentRequestId } from "./context.ts";
+
+export const EVENT_TYPES = [
+  "route",
+  "reroute",
+  "cooldown",
+  "token_refresh",
+  "fallback",
+  "substitute",
+  "request",
+] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
+
+export interface ConnectorEvent {
+  type: EventType;
+  time: string;
+  /** Set for events raised while serving a request (x-connector-request-id). */
+  requestId?: string;
+  /** Amp provider for request-level events; credential/pool name for cooldown and token_refresh. */
+  provider?: string;
+  pool?: string;
+  [key: string]: unknown;
+}
+
+type Listener = (event: ConnectorEvent) => void;
+
+const listeners = new Set<Listener>();
+
+export function emit(type: EventType, data: Record<string, unknown>): void {
+  if (listeners.size === 0) return;
+  const requestId = currentRequestId();
+  const event: ConnectorEvent = { type, time: new Date().toISOString(), ...(requestId && { requestId }), ...data };
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch {
+      // A broken subscriber must not fail the request that raised the event.
+    }
+  }
+}
+
+/** Returns the unsubscribe function. */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
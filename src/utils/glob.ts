@@ -0,0 +1,17 @@
+/** Shell-style globs for config patterns: `*` matches any run of characters, `?` one character.
+ *  Each wildcard is a capture group, so callers can substitute `$1`, `$2`, ... */
+
+const compiled = new Map<string, RegExp>();
+
+export function globToRegExp(glob: string): RegExp {
+  let re = compiled.get(glob);
+  if (!re) {
+    const source = glob
+      .split("")
+      .map((c) => (c === "*" ? "(.*)" : c === "?" ? "(.)" : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+      .join("");
+    re = new RegExp(`^${source}$`);
+    compiled.set(glob, re);
+  }
+  return re;
+}
@@ -1,6 +1,9 @@
 /** Structured logging with route decision tracking. */
 
-export type RouteDecision = "LOCAL_CLAUDE" | "LOCAL_CODEX" | "LOCAL_GOOGLE" | "AMP_UPSTREAM";
+import { currentRequestId } from "./context.ts";
+import * as events from "./events.ts";
+
+export type RouteDecision = "LOCAL_CLAUDE" | "LOCAL_CODEX" | "LOCAL_GOOGLE" | "AMP_UPSTREAM" | "REJECTED";
 
 export type LogLevel = "debug" | "info" | "warn" | "error";
 
@@ -13,6 +16,7 @@ interface LogEntry {
   model?: string;
   duration?: number;
   error?: string;
+  requestId?: string;
   [key: string]: unknown;
 }
 
@@ -43,6 +47,7 @@ const ROUTE_COLORS: Record<RouteDecision, string> = {
   LOCAL_CODEX: GREEN,
   LOCAL_GOOGLE: GREEN,
   AMP_UPSTREAM: YELLOW,
+  REJECTED: RED,
 };
 
 function colorize(text: string, color: string): string {
@@ -61,7 +66,7 @@ function shouldLog(level: LogLevel): boolean {
 }
 
 function format(entry: LogEntry): string {
-  const { timestamp, level, message, route, provider, model, duration, error } = entry;
+  const { timestamp, level, message, route, provider, model, duration, error, requestId } = entry;
 
   const tag = colorize(`[${level.toUpperCase().padEnd(5)}]`, LEVEL_COLORS[level]);
   let line = `${timestamp} ${tag} ${message}`;
@@ -70,6 +75,7 @@ function format(entry: LogEntry): string {
   if (model) line += ` model=${model}`;
   if (duration !== undefined) line += ` duration=${duration}ms`;
   if (error) line += ` error=${error}`;
+  if (requestId) line += ` req=${requestId}`;
 
   return line;
 }
@@ -83,6 +89,7 @@ function log(level: LogLevel, message: string, meta?: Meta): void {
     timestamp: new Date().toISOString(),
     level,
     message,
+    requestId: currentRequestId(),
     ...meta,
   };
 
@@ -105,5 +112,6 @@ export const logger = {
 
   route(decision: RouteDecision, provider: string, model: string): void {
     log("info", "Route decision", { route: decision, provider, model });
+    events.emit("route", { route: decision, provider, model });
   },
 };
@@ -0,0 +1,155 @@
+/** Prometheus metrics — counters and histograms kept in memory, rendered in the text
+ *  exposition format by GET /metrics. Gauges are computed at scrape time (server/metrics.ts). */
+
+import { isNamedModel } from "./models.ts";
+
+type Labels = Record<string, string>;
+
+/** Seconds until the response headers — streams keep running after this. */
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+/** The model comes from the client's request body — every distinct value would be a new series.
+ *  Beyond the models config names, a model gets its own label once a provider has answered it
+ *  successfully, up to this many; everything else is counted as `other`. */
+const MAX_SEEN_MODELS = 100;
+const OTHER_MODEL = "other";
+const seenModels = new Set<string>();
+
+interface Family {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  lines(): string[];
+}
+
+export class Counter implements Family {
+  readonly type = "counter";
+  private values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels: Labels, by = 1): void {
+    const key = labelString(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  lines(): string[] {
+    return [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`);
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Histogram implements Family {
+  readonly type = "histogram";
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: readonly number[] = DURATION_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelString(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]!) s.counts[i]!++;
+    }
+    s.sum += value;
+    s.count++;
+  }
+
+  lines(): string[] {
+    const out: string[] = [];
+    for (const [key, s] of this.series) {
+      this.buckets.forEach((le, i) => {
+        out.push(`${this.name}_bucket${labelString({ ...s.labels, le: String(le) })} ${s.counts[i]}`);
+      });
+      out.push(`${this.name}_bucket${labelString({ ...s.labels, le: "+Inf" })} ${s.count}`);
+      out.push(`${this.name}_sum${key} ${s.sum}`);
+      out.push(`${this.name}_count${key} ${s.count}`);
+    }
+    return out;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/** Scrape-time gauge: values are supplied by the caller when rendering. */
+export function gauge(name: string, help: string, samples: { labels: Labels; value: number }[]): Family {
+  return {
+    name,
+    help,
+    type: "gauge",
+    lines: () => samples.map((s) => `${name}${labelString(s.labels)} ${s.value}`),
+  };
+}
+
+export function render(families: Family[]): string {
+  const out: string[] = [];
+  for (const f of families) {
+    out.push(`# HELP ${f.name} ${f.help}`, `# TYPE ${f.name} ${f.type}`, ...f.lines());
+  }
+  return `${out.join("\n")}\n`;
+}
+
+export const requestsTotal = new Counter(
+  "ampcc_requests_total",
+  "Provider requests by provider, quota pool, account, model, route decision and status.",
+);
+
+export const requestDuration = new Histogram(
+  "ampcc_request_duration_seconds",
+  "Time until response headers for provider requests.",
+);
+
+/** Record one finished provider request. `pool`/`account` are empty for requests not served locally. */
+export function observeRequest(entry: {
+  provider: string;
+  pool?: string;
+  account?: number;
+  model: string;
+  route: string;
+  statusCode: number;
+  durationMs: number;
+}): void {
+  const labels = {
+    provider: entry.provider,
+    pool: entry.pool ?? "",
+    account: entry.account === undefined ? "" : String(entry.account),
+    model: modelLabel(entry.model, entry.statusCode),
+    route: entry.route,
+  };
+  requestsTotal.inc({ ...labels, status: String(entry.statusCode) });
+  requestDuration.observe(labels, entry.durationMs / 1000);
+}
+
+function modelLabel(model: string, statusCode: number): string {
+  if (seenModels.has(model) || isNamedModel(model)) return model;
+  if (statusCode >= 200 && statusCode < 300 && seenModels.size < MAX_SEEN_MODELS) {
+    seenModels.add(model);
+    return model;
+  }
+  return OTHER_MODEL;
+}
+
+function labelString(labels: Labels): string {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
@@ -1,21 +1,153 @@
 /** Centralized model name mapping: Amp CLI model → provider API model.
  *  Amp's proxy may use aliased model names that differ from the provider's API.
- *  This module resolves the correct model name and provides the serialized body. */
+ *  Resolution walks an ordered alias table — user rules from `models.aliases` first,
+ *  then the built-in rules below — and the first match wins. */
 
-/** Suffix patterns stripped when forwarding to the real provider API. */
-const STRIP_SUFFIXES = ["-api-preview"] as const;
+import type { ProviderName } from "../auth/store.ts";
+import { globToRegExp } from "./glob.ts";
+
+export type GoogleStrategyName = "gemini" | "antigravity";
+
+export interface ModelAlias {
+  /** Amp model name glob: `*` matches any run of characters, `?` one character. */
+  match: string;
+  /** Provider model name; `$1`, `$2`, ... insert the text matched by each wildcard. Unset keeps the name. */
+  to?: string;
+  /** Apply only when routing to this provider. */
+  provider?: ProviderName;
+  /** Apply only on this Google strategy. */
+  strategy?: GoogleStrategyName;
+  /** Google only: the model works on `strategy` alone — skip the other strategies. */
+  exclusive?: boolean;
+}
+
+/** Equivalent models on other local pools, tried in order before a request goes to Amp upstream. */
+export interface ModelFallback {
+  /** Amp model name glob. */
+  match: string;
+  to: FallbackTarget[];
+}
+
+export interface FallbackTarget {
+  provider: Exclude<ProviderName, "anthropic">;
+  /** Model name on that provider, as Amp would send it (its aliases still apply). */
+  model: string;
+}
+
+export interface ModelsConfig {
+  aliases?: ModelAlias[];
+  /** Only Anthropic Messages requests fall back — the one format translated for other providers. */
+  fallbacks?: ModelFallback[];
+  /** Model reported for requests that carry none, per provider. */
+  defaults?: Partial<Record<ProviderName, string>>;
+}
+
+/** Built-in rules — what Amp sends today. User aliases take precedence over these. */
+export const BUILTIN_ALIASES: readonly ModelAlias[] = [
+  { match: "*-api-preview", to: "$1" },
+  // Antigravity uses different model names than what Amp CLI sends.
+  { match: "gemini-3-flash-preview", to: "gemini-3-flash", provider: "google", strategy: "antigravity" },
+  { match: "gemini-3-pro-preview", to: "gemini-3-pro-high", provider: "google", strategy: "antigravity" },
+  {
+    match: "gemini-3-pro-image-preview",
+    to: "gemini-3.1-flash-image",
+    provider: "google",
+    strategy: "antigravity",
+    exclusive: true,
+  },
+  {
+    match: "gemini-3.1-flash-image-preview",
+    to: "gemini-3.1-flash-image",
+    provider: "google",
+    strategy: "antigravity",
+    exclusive: true,
+  },
+];
+
+export const BUILTIN_DEFAULTS: Readonly<Partial<Record<ProviderName, string>>> = { codex: "gpt-5.2" };
+
+interface CompiledAlias extends ModelAlias {
+  pattern: RegExp;
+}
+
+let table: CompiledAlias[] = BUILTIN_ALIASES.map(compile);
+let defaults: Partial<Record<ProviderName, string>> = { ...BUILTIN_DEFAULTS };
+let fallbacks: (ModelFallback & { pattern: RegExp })[] = [];
+let named = namedModels(table, defaults, fallbacks);
+
+/** Install the `models` block from config. Called at startup and on every reload. */
+export function setModelAliases(models: ModelsConfig | undefined): void {
+  table = [...(models?.aliases ?? []), ...BUILTIN_ALIASES].map(compile);
+  defaults = { ...BUILTIN_DEFAULTS, ...models?.defaults };
+  fallbacks = (models?.fallbacks ?? []).map((f) => ({ ...f, pattern: globToRegExp(f.match) }));
+  named = namedModels(table, defaults, fallbacks);
+}
+
+/** Whether the alias table, defaults or fallbacks name this model literally (not by a glob). */
+export function isNamedModel(model: string): boolean {
+  return named.has(model);
+}
 
 /** Resolve the model name the provider API expects.
+ *  Rules scoped to a provider or strategy only apply when that provider/strategy is given.
  *  Returns the original if no mapping applies. */
-export function resolveModel(ampModel: string): string {
-  for (const suffix of STRIP_SUFFIXES) {
-    if (ampModel.endsWith(suffix)) return ampModel.slice(0, -suffix.length);
+export function resolveModel(ampModel: string, provider?: ProviderName, strategy?: GoogleStrategyName): string {
+  for (const alias of table) {
+    if (!applies(alias, provider, strategy)) continue;
+    const groups = alias.pattern.exec(ampModel);
+    if (!groups) continue;
+    if (alias.to === undefined) return ampModel;
+    return alias.to.replace(/\$(\d+)/g, (_, n: string) => groups[Number(n)] ?? "");
   }
   return ampModel;
 }
 
+/** Google strategy a model is restricted to, if an `exclusive` rule matches it. */
+export function exclusiveStrategy(ampModel: string): GoogleStrategyName | undefined {
+  for (const alias of table) {
+    if (!alias.exclusive || !alias.strategy) continue;
+    if (alias.provider && alias.provider !== "google") continue;
+    if (alias.pattern.test(ampModel)) return alias.strategy;
+  }
+  return undefined;
+}
+
+/** Model to report when a request names none. */
+export function defaultModel(provider: ProviderName): string | undefined {
+  return defaults[provider];
+}
+
+/** Fallback targets of the first `models.fallbacks` entry matching `ampModel`. */
+export function fallbacksFor(ampModel: string): FallbackTarget[] {
+  return fallbacks.find((f) => f.pattern.test(ampModel))?.to ?? [];
+}
+
 /** Return body string with provider model name substituted.
  *  Shallow-copies parsed to avoid mutating the shared ParsedBody.parsed reference. */
 export function rewriteBodyModel(parsed: Record<string, unknown>, providerModel: string): string {
   return JSON.stringify({ ...parsed, model: providerModel });
 }
+
+function applies(alias: ModelAlias, provider?: ProviderName, strategy?: GoogleStrategyName): boolean {
+  if (alias.provider && alias.provider !== provider) return false;
+  if (alias.strategy && alias.strategy !== strategy) return false;
+  return true;
+}
+
+function namedModels(
+  aliases: readonly ModelAlias[],
+  defaultModels: Partial<Record<ProviderName, string>>,
+  fallbackEntries: readonly ModelFallback[],
+): Set<string> {
+  const literal = (name: string | undefined) => !!name && !/[*?$]/.test(name);
+  const names = [
+    ...aliases.flatMap((a) => [a.match, a.to]),
+    ...Object.values(defaultModels),
+    ...fallbackEntries.flatMap((f) => [f.match, ...f.to.map((t) => t.model)]),
+  ];
+  return new Set(names.filter(literal) as string[]);
+}
+
+function compile(alias: ModelAlias): CompiledAlias {
+  return { ...alias, pattern: globToRegExp(alias.match) };
+}
@@ -1,3 +1,27 @@
 export function apiError(status: number, message: string, type = "api_error"): Response {
   return Response.json({ error: { message, type, code: String(status) } }, { status });
 }
+
+/** gRPC status names Google APIs put next to the HTTP status. */
+const GOOGLE_STATUS: Record<number, string> = {
+  400: "INVALID_ARGUMENT",
+  403: "PERMISSION_DENIED",
+  404: "NOT_FOUND",
+  429: "RESOURCE_EXHAUSTED",
+  503: "UNAVAILABLE",
+};
+
+/** `apiError` in the dialect of an Amp provider path — the shape that provider's client parses. */
+export function providerError(ampProvider: string, status: number, message: string, type = "api_error"): Response {
+  switch (ampProvider) {
+    case "anthropic":
+      return Response.json({ type: "error", error: { type, message } }, { status });
+    case "google":
+      return Response.json(
+        { error: { code: status, message, status: GOOGLE_STATUS[status] ?? "UNKNOWN" } },
+        { status },
+      );
+    default:
+      return apiError(status, message, type);
+  }
+}
@@ -0,0 +1,33 @@
+/** Backpressure-aware writes for raw Bun sockets: bytes the kernel does not take right away
+ *  are queued on the socket's data and written from its `drain` handler. */
+
+import type { Socket } from "bun";
+
+/** Socket data carrying the write queue — extend it with per-socket state. */
+export interface Outbox {
+  queue: Uint8Array[];
+}
+
+export function send(socket: Socket<Outbox>, bytes: Uint8Array): void {
+  const { queue } = socket.data;
+  if (queue.length > 0) {
+    queue.push(bytes.slice());
+    return;
+  }
+  const written = socket.write(bytes);
+  if (written < bytes.length) queue.push(bytes.slice(written));
+}
+
+/** `drain` handler: write out whatever send() queued. */
+export function flush(socket: Socket<Outbox>): void {
+  const { queue } = socket.data;
+  while (queue.length > 0) {
+    const next = queue[0]!;
+    const written = socket.write(next);
+    if (written < next.length) {
+      queue[0] = next.subarray(written);
+      return;
+    }
+    queue.shift();
+  }
+}
@@ -1,21 +1,39 @@
 /** Request statistics tracking with ring buffer. */
 
+import type { QuotaPool } from "../routing/cooldown.ts";
 import type { RouteDecision } from "../utils/logger.ts";
 
 export interface RequestEntry {
   timestamp: string;
   route: RouteDecision;
   provider: string;
+  /** Quota pool and account of the local route, when one was chosen. */
+  pool?: QuotaPool;
+  account?: number;
   model: string;
   statusCode: number;
   durationMs: number;
+  /** Time spent waiting for a concurrency slot, when the request had to queue. */
+  queuedMs?: number;
+  /** Why Amp upstream answered instead of a local account (server/diagnostics.ts). */
+  fallbackReason?: string;
+  /** Why a request bound for Amp upstream was refused (server/diagnostics.ts). */
+  refusedReason?: string;
+  /** `provider/model` that answered in place of the requested model (routing/fallback.ts). */
+  substituteModel?: string;
 }
 
 export interface StatsSnapshot {
   totalRequests: number;
   requestsByRoute: Partial<Record<RouteDecision, number>>;
   count429: number;
+  /** Requests answered by Amp upstream, by fallback reason. */
+  fallbacksByReason: Record<string, number>;
   averageDurationMs: number;
+  /** Requests that waited for a concurrency slot, and how long they waited. */
+  queuedRequests: number;
+  averageQueueMs: number;
+  maxQueueMs: number;
   uptimeMs: number;
 }
 
@@ -42,20 +60,36 @@ export class StatsRecorder {
 
   snapshot(): StatsSnapshot {
     const requestsByRoute: Partial<Record<RouteDecision, number>> = {};
+    const fallbacksByReason: Record<string, number> = {};
     let count429 = 0;
     let totalDuration = 0;
+    let queued = 0;
+    let totalQueue = 0;
+    let maxQueue = 0;
 
     for (const entry of this.buffer) {
       requestsByRoute[entry.route] = (requestsByRoute[entry.route] ?? 0) + 1;
       if (entry.statusCode === 429) count429++;
+      if (entry.fallbackReason) {
+        fallbacksByReason[entry.fallbackReason] = (fallbacksByReason[entry.fallbackReason] ?? 0) + 1;
+      }
       totalDuration += entry.durationMs;
+      if (entry.queuedMs) {
+        queued++;
+        totalQueue += entry.queuedMs;
+        maxQueue = Math.max(maxQueue, entry.queuedMs);
+      }
     }
 
     return {
       totalRequests: this.totalCount,
       requestsByRoute,
       count429,
+      fallbacksByReason,
       averageDurationMs: this.buffer.length > 0 ? totalDuration / this.buffer.length : 0,
+      queuedRequests: queued,
+      averageQueueMs: queued > 0 ? totalQueue / queued : 0,
+      maxQueueMs: maxQueue,
       uptimeMs: Date.now() - this.startedAt,
     };
   }
@@ -73,6 +107,17 @@ export class StatsRecorder {
     return result;
   }
 
+  /** Buffered entries (oldest first) and the lifetime count, for persisting across restarts. */
+  dump(): { totalRequests: number; entries: RequestEntry[] } {
+    return { totalRequests: this.totalCount, entries: this.recentRequests(this.buffer.length) };
+  }
+
+  load(saved: { totalRequests: number; entries: RequestEntry[] }): void {
+    this.reset();
+    for (const entry of saved.entries.slice(-this.maxEntries)) this.record(entry);
+    this.totalCount = Math.max(saved.totalRequests, this.totalCount);
+  }
+
   reset(): void {
     this.buffer = [];
     this.writeIndex = 0;
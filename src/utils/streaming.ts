@@ -51,7 +51,11 @@ export function encode(chunk: Chunk): string {
 const decoder = new TextDecoder();
 const encoder = new TextEncoder();
 
-function transform(source: ReadableStream<Uint8Array>, fn: (data: string) => string): ReadableStream<Uint8Array> {
+function transform(
+  source: ReadableStream<Uint8Array>,
+  fn: (data: string) => string,
+  signal?: AbortSignal,
+): ReadableStream<Uint8Array> {
   let buffer = "";
 
   const stream = new TransformStream<Uint8Array, Uint8Array>({
@@ -81,7 +85,7 @@ function transform(source: ReadableStream<Uint8Array>, fn: (data: string) => str
     },
   });
 
-  return source.pipeThrough(stream);
+  return source.pipeThrough(stream, { signal });
 }
 
 const SSE_HEADERS: Readonly<Record<string, string>> = {
@@ -103,12 +107,13 @@ const forwardedHeaders = [
   "x-ratelimit-remaining-tokens",
 ] as const;
 
-export function proxy(upstream: Response, rewrite?: (data: string) => string): Response {
+/** `signal` stops the rewrite and cancels the upstream body when the client disconnects. */
+export function proxy(upstream: Response, rewrite?: (data: string) => string, signal?: AbortSignal): Response {
   if (!upstream.body) {
     return new Response("No response body", { status: 502 });
   }
 
-  const body = rewrite ? transform(upstream.body, rewrite) : upstream.body;
+  const body = rewrite ? transform(upstream.body, rewrite, signal) : upstream.body;
 
   const h: Record<string, string> = { ...SSE_HEADERS };
   for (const name of forwardedHeaders) {
@@ -1,6 +1,7 @@
 /** Check npm registry for newer versions on startup. */
 
 import { line, s } from "../cli/ansi.ts";
+import { proxyOption } from "../proxy/egress.ts";
 
 const PACKAGE_NAME = "ampcode-connector";
 const REGISTRY_URL = `https://registry.npmjs.org/${PACKAGE_NAME}/latest`;
@@ -15,6 +16,7 @@ function currentVersion(): string {
 async function fetchLatestVersion(): Promise<string | null> {
   try {
     const res = await fetch(REGISTRY_URL, {
+      ...proxyOption(),
       signal: AbortSignal.timeout(TIMEOUT_MS),
     });
     if (!res.ok) return null;
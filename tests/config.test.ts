@@ -0,0 +1,295 @@
+import { describe, expect, test } from "bun:test";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ProxyConfig } from "../src/config/config.ts";
+import { envName, readEnvOverrides } from "../src/config/env.ts";
+import { changedKeys, reload, startWatching, stopWatching } from "../src/config/live.ts";
+import { fileSchema, lineOf, merge, validate } from "../src/config/schema.ts";
+import { clearSecretCache, isSecretRef, resolveSecret } from "../src/config/secrets.ts";
+import { DEFAULT_POLICY, policyFor, setRoutingPolicy } from "../src/routing/policy.ts";
+import { certHosts, tlsFiles } from "../src/server/tls.ts";
+
+describe("changedKeys", () => {
+  const base = {
+    hostname: "localhost",
+    port: 8765,
+    logLevel: "info",
+    providers: { anthropic: true, codex: true, google: true },
+  };
+
+  test("returns empty list for identical configs", () => {
+    expect(changedKeys(base, structuredClone(base))).toEqual([]);
+  });
+
+  test("reports nested leaf paths", () => {
+    const next = { ...base, providers: { ...base.providers, codex: false } };
+    expect(changedKeys(base, next)).toEqual(["providers.codex"]);
+  });
+
+  test("reports added and removed optional keys", () => {
+    expect(changedKeys(base, { ...base, exaApiKey: "secret" })).toEqual(["exaApiKey"]);
+    expect(changedKeys({ ...base, exaApiKey: "secret" }, base)).toEqual(["exaApiKey"]);
+  });
+
+  test("never includes values", () => {
+    const changed = changedKeys({ ...base, ampApiKey: "old-key" }, { ...base, ampApiKey: "new-key" });
+    expect(changed.join(",")).not.toContain("key-");
+  });
+});
+
+describe("startWatching", () => {
+  test("registers one SIGHUP listener however often it is called", () => {
+    const before = process.listenerCount("SIGHUP");
+    startWatching();
+    startWatching();
+    expect(process.listenerCount("SIGHUP")).toBe(before + 1);
+    stopWatching();
+    expect(process.listenerCount("SIGHUP")).toBe(before);
+  });
+});
+
+describe("reload", () => {
+  test("keeps serving reloads after one throws", async () => {
+    // Not initialized here, so each reload throws before loading anything.
+    expect(await reload("first")).toBe(false);
+    expect(await reload("second")).toBe(false);
+  });
+});
+
+describe("validate", () => {
+  test("accepts a valid document", () => {
+    expect(validate({ port: 8765, logLevel: "debug", providers: { codex: false } })).toEqual([]);
+  });
+
+  test("accepts empty and null documents", () => {
+    expect(validate(null)).toEqual([]);
+    expect(validate({})).toEqual([]);
+  });
+
+  test("reports unknown keys with a suggestion", () => {
+    const issues = validate({ providers: { anthropc: false } });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]!.path).toBe("providers.anthropc");
+    expect(issues[0]!.message).toContain('did you mean "anthropic"');
+  });
+
+  test("reports wrong types instead of falling back to defaults", () => {
+    const issues = validate({ port: "8765", providers: { google: "yes" } });
+    expect(issues.map((i) => i.path)).toEqual(["port", "providers.google"]);
+    expect(issues[0]!.message).toBe('expected integer, got string "8765"');
+  });
+
+  test("reports out-of-range values", () => {
+    expect(validate({ port: 70000 })[0]!.message).toBe("must be between 1 and 65535, got 70000");
+  });
+
+  test("validates account lists", () => {
+    expect(validate({ accounts: { anthropic: [0, "me@example.com"] } })).toEqual([]);
+    expect(validate({ accounts: { codex: [-1] } })[0]!.path).toBe("accounts.codex.0");
+  });
+
+  test("validates profile sections against the same schema", () => {
+    expect(validate({ profiles: { work: { port: 9000 } } }, fileSchema)).toEqual([]);
+    const issues = validate({ profiles: { work: { prot: 9000 } } }, fileSchema);
+    expect(issues[0]!.path).toBe("profiles.work.prot");
+    expect(validate({ profiles: { work: {} } })[0]!.message).toContain("unknown key");
+  });
+
+  test("validates model aliases and requires match", () => {
+    expect(validate({ models: { aliases: [{ match: "claude-*", to: "$1", provider: "anthropic" }] } })).toEqual([]);
+    const issues = validate({ models: { aliases: [{ to: "x", strategy: "vertex" }] } });
+    expect(issues.map((i) => i.path)).toEqual(["models.aliases.0.strategy", "models.aliases.0.match"]);
+  });
+
+  test("reports invalid enum and URL values", () => {
+    const issues = validate({ logLevel: "verbose", ampUpstreamUrl: "ampcode.com" });
+    expect(issues.map((i) => i.path)).toEqual(["logLevel", "ampUpstreamUrl"]);
+  });
+});
+
+describe("lineOf", () => {
+  const yaml = [
+    "# comment",
+    "port: 8765",
+    "providers:",
+    "  anthropic: true",
+    "  anthropc: false",
+    "logLevel: info",
+  ].join("\n");
+
+  test("locates top-level and nested keys", () => {
+    expect(lineOf(yaml, "port")).toBe(2);
+    expect(lineOf(yaml, "providers.anthropc")).toBe(5);
+    expect(lineOf(yaml, "logLevel")).toBe(6);
+  });
+
+  test("locates keys in flow mappings", () => {
+    expect(lineOf("port: 1\nproviders: { anthropc: false }", "providers.anthropc")).toBe(2);
+  });
+
+  test("locates list items", () => {
+    const text = "accounts:\n  codex:\n    - 0\n    - -1\nport: 1";
+    expect(lineOf(text, "accounts.codex.1")).toBe(4);
+    expect(lineOf("accounts:\n  codex: [0, -1]", "accounts.codex.1")).toBe(2);
+  });
+
+  test("does not match a nested key outside its parent block", () => {
+    expect(lineOf("providers:\n  codex: true\ncodex: 1", "providers.google")).toBe(1);
+  });
+});
+
+describe("merge", () => {
+  const defaults = { hostname: "localhost", port: 8765, providers: { anthropic: true, codex: true, google: true } };
+
+  test("takes the first layer that holds a value and records its source", () => {
+    const sources = new Map<string, string>();
+    const merged = merge(
+      [
+        { source: "file", values: { port: 9000, providers: { codex: false } } },
+        { source: "env", values: { hostname: "0.0.0.0", port: 1234 } },
+      ],
+      defaults,
+      sources,
+    ) as typeof defaults;
+
+    expect(merged.port).toBe(9000);
+    expect(merged.hostname).toBe("0.0.0.0");
+    expect(merged.providers).toEqual({ anthropic: true, codex: false, google: true });
+    expect(sources.get("port")).toBe("file");
+    expect(sources.get("hostname")).toBe("env");
+    expect(sources.get("providers.anthropic")).toBe("default");
+  });
+
+  test("leaves unset optional fields absent", () => {
+    const sources = new Map<string, string>();
+    const merged = merge([{ source: "env", values: { ampApiKey: "" } }], defaults, sources) as Record<string, unknown>;
+    expect("ampApiKey" in merged).toBe(false);
+    expect(sources.has("ampApiKey")).toBe(false);
+  });
+});
+
+describe("env overrides", () => {
+  test("derives variable names from key paths", () => {
+    expect(envName("port")).toBe("AMPCC_PORT");
+    expect(envName("ampUpstreamUrl")).toBe("AMPCC_AMP_UPSTREAM_URL");
+    expect(envName("providers.anthropic")).toBe("AMPCC_PROVIDERS_ANTHROPIC");
+  });
+
+  test("coerces numbers and booleans into nested values", () => {
+    const { values, issues } = readEnvOverrides({
+      AMPCC_PORT: "9000",
+      AMPCC_PROVIDERS_CODEX: "off",
+      AMPCC_LOG_LEVEL: "debug",
+      PATH: "/usr/bin",
+    });
+    expect(issues).toEqual([]);
+    expect(values).toEqual({ port: 9000, providers: { codex: false }, logLevel: "debug" });
+  });
+
+  test("reports invalid values by name and sets unknown variables aside", () => {
+    const { issues, unknown } = readEnvOverrides({
+      AMPCC_PORT: "99999",
+      AMPCC_PROVIDERS_GOOGLE: "maybe",
+      AMPCC_PROVIDER_CODEX: "false",
+    });
+    expect(issues.map((i) => i.path).sort()).toEqual(["AMPCC_PORT", "AMPCC_PROVIDERS_GOOGLE"]);
+    expect(unknown).toEqual(["AMPCC_PROVIDER_CODEX"]);
+  });
+
+  test("parses record fields as YAML mappings", () => {
+    const { values, issues } = readEnvOverrides({
+      AMPCC_PROXY_ACCOUNTS_CODEX: '{0: "socks5://egress:1080", me@example.com: "http://proxy:3128"}',
+    });
+    expect(issues).toEqual([]);
+    expect(values).toEqual({
+      proxy: { accounts: { codex: { "0": "socks5://egress:1080", "me@example.com": "http://proxy:3128" } } },
+    });
+    expect(readEnvOverrides({ AMPCC_PROXY_ACCOUNTS_CODEX: "{0: ftp://x}" }).issues).toHaveLength(1);
+    expect(readEnvOverrides({ AMPCC_PROXY_ACCOUNTS_CODEX: "socks5://x" }).issues).toHaveLength(1);
+  });
+
+  test("parses structured lists as YAML", () => {
+    const { values, issues } = readEnvOverrides({ AMPCC_MODELS_ALIASES: '[{match: "gpt-*", to: "gpt-5.2"}]' });
+    expect(issues).toEqual([]);
+    expect(values).toEqual({ models: { aliases: [{ match: "gpt-*", to: "gpt-5.2" }] } });
+  });
+});
+
+describe("routing policy", () => {
+  test("validates ranges in the routing block and per pool", () => {
+    expect(validate({ routing: { maxRetries: 2, pools: { google: { exhaustedConsecutive: 2 } } } })).toEqual([]);
+    const issues = validate({ routing: { maxRetries: 50, pools: { codex: { exhaustedConsecutive: 0 } } } });
+    expect(issues.map((i) => i.path)).toEqual(["routing.maxRetries", "routing.pools.codex.exhaustedConsecutive"]);
+  });
+
+  test("applies global values, then pool overrides", () => {
+    setRoutingPolicy({ ...DEFAULT_POLICY, maxRetries: 1, pools: { google: { maxRetries: 5, retryDelayMs: 100 } } });
+    expect(policyFor("anthropic").maxRetries).toBe(1);
+    expect(policyFor("google").maxRetries).toBe(5);
+    expect(policyFor("google").retryDelayMs).toBe(100);
+    expect(policyFor("codex").retryDelayMs).toBe(DEFAULT_POLICY.retryDelayMs);
+    expect(policyFor(null)).toEqual(DEFAULT_POLICY);
+    setRoutingPolicy(DEFAULT_POLICY);
+  });
+});
+
+describe("tls", () => {
+  const withTls = (hostname: string, tls: ProxyConfig["tls"]) => ({ hostname, tls }) as ProxyConfig;
+
+  test("generated certificate covers loopback, the listen host and extra hosts", () => {
+    expect(certHosts(withTls("dev.example.com", { enabled: true, hosts: ["10.0.0.5", "localhost"] }))).toEqual([
+      "localhost",
+      "127.0.0.1",
+      "::1",
+      "dev.example.com",
+      "10.0.0.5",
+    ]);
+    expect(certHosts(withTls("0.0.0.0", { enabled: true }))).toEqual(["localhost", "127.0.0.1", "::1"]);
+  });
+
+  test("user-supplied files need both cert and key", () => {
+    expect(tlsFiles(withTls("localhost", { enabled: false, cert: "/x.pem" }))).toBeUndefined();
+    expect(() => tlsFiles(withTls("localhost", { enabled: true, cert: "/x.pem" }))).toThrow("set together");
+    expect(() => tlsFiles(withTls("localhost", { enabled: true, cert: "/nope.pem", key: "/nope.key" }))).toThrow(
+      "does not exist",
+    );
+  });
+});
+
+describe("secret references", () => {
+  test("recognizes env:, file: and exec: prefixes only", () => {
+    expect(isSecretRef("env:AMP_KEY")).toBe(true);
+    expect(isSecretRef("file:/run/secrets/exa")).toBe(true);
+    expect(isSecretRef("exec:pass show amp/key")).toBe(true);
+    expect(isSecretRef("sgamp_user_01")).toBe(false);
+    expect(isSecretRef("env:")).toBe(false);
+  });
+
+  test("resolves environment variables and trimmed files", async () => {
+    process.env.AMPCC_TEST_SECRET = "from-env";
+    const path = join(tmpdir(), `ampcc-secret-${process.pid}`);
+    await Bun.write(path, "from-file\n");
+    try {
+      expect(await resolveSecret("env:AMPCC_TEST_SECRET")).toBe("from-env");
+      expect(await resolveSecret(`file:${path}`)).toBe("from-file");
+    } finally {
+      delete process.env.AMPCC_TEST_SECRET;
+      await Bun.file(path).delete();
+    }
+  });
+
+  test("runs commands and caches the result", async () => {
+    const ref = "exec:date +%s%N";
+    const first = await resolveSecret(ref);
+    expect(await resolveSecret(ref)).toBe(first);
+    clearSecretCache();
+    expect(await resolveSecret("exec:printf 'a\\nb' | tail -1")).toBe("b");
+  });
+
+  test("reports failures", async () => {
+    await expect(resolveSecret("env:AMPCC_TEST_UNSET")).rejects.toThrow("AMPCC_TEST_UNSET is not set");
+    await expect(resolveSecret("file:/nonexistent/secret")).rejects.toThrow("does not exist");
+    await expect(resolveSecret("exec:echo nope >&2; exit 3")).rejects.toThrow("exited with 3");
+    await expect(resolveSecret("exec:sleep 5", 50)).rejects.toThrow("timed out");
+  });
+});
@@ -1,5 +1,6 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { denied, type ForwardOptions, forward } from "../src/providers/forward.ts";
+import * as upstream from "../src/proxy/upstream.ts";
 
 /** Minimal HTTP server that simulates provider responses. */
 const baseUrl = "http://mock.local";
@@ -21,6 +22,7 @@ function enqueueError(error: Error): void {
 
 beforeAll(() => {
   globalThis.fetch = (async (input, init) => {
+    if (init?.signal?.aborted) throw new DOMException("The operation was aborted.", "AbortError");
     const req = input instanceof Request ? input : new Request(String(input), init);
     const body = await req.text();
     const hdrs: Record<string, string> = {};
@@ -216,6 +218,44 @@ describe("forward", () => {
   });
 });
 
+describe("client abort", () => {
+  test("ends the retry wait and makes no further attempts", async () => {
+    clearRequests();
+    enqueue(500, "server error");
+    enqueue(200, '{"ok":true}');
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const started = Date.now();
+    const res = await forward(opts({ signal: controller.signal }));
+    expect(res.status).toBe(499);
+    expect(requests).toHaveLength(1);
+    expect(Date.now() - started).toBeLessThan(400);
+  });
+});
+
+describe("amp upstream", () => {
+  test("never forwards connector credentials", async () => {
+    clearRequests();
+    enqueue(200, "{}");
+    enqueue(200, "{}");
+    const headers = {
+      "x-connector-token": "ampcc_one",
+      "proxy-authorization": "Bearer ampcc_two",
+      authorization: "Bearer ampcc_three",
+    };
+    await upstream.forward(new Request("http://localhost/api/threads", { headers }), "https://ampcode.com");
+    await upstream.forward(
+      new Request("http://localhost/api/threads", { headers: { ...headers, authorization: "Bearer sgamp_user" } }),
+      "https://ampcode.com",
+    );
+
+    expect(requests[0]!.headers).not.toContainAnyKeys(["x-connector-token", "proxy-authorization", "authorization"]);
+    expect(requests[1]!.headers.authorization).toBe("Bearer sgamp_user");
+    expect(requests[1]!.headers).not.toContainAnyKeys(["x-connector-token", "proxy-authorization"]);
+  });
+});
+
 describe("denied", () => {
   test("returns 401 with provider name", async () => {
     const res = denied("Anthropic");
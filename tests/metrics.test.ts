@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { Counter, gauge, Histogram, observeRequest, render, requestsTotal } from "../src/utils/metrics.ts";
+import { setModelAliases } from "../src/utils/models.ts";
+
+describe("prometheus rendering", () => {
+  test("renders counters with escaped labels", () => {
+    const c = new Counter("t_total", "Test counter.");
+    c.inc({ model: 'a"b\\c' });
+    c.inc({ model: 'a"b\\c' }, 2);
+    expect(render([c])).toBe('# HELP t_total Test counter.\n# TYPE t_total counter\nt_total{model="a\\"b\\\\c"} 3\n');
+  });
+
+  test("renders cumulative histogram buckets, sum and count", () => {
+    const h = new Histogram("t_seconds", "Test histogram.", [1, 5]);
+    h.observe({ route: "x" }, 0.5);
+    h.observe({ route: "x" }, 3);
+    h.observe({ route: "x" }, 10);
+    expect(h.lines()).toEqual([
+      't_seconds_bucket{route="x",le="1"} 1',
+      't_seconds_bucket{route="x",le="5"} 2',
+      't_seconds_bucket{route="x",le="+Inf"} 3',
+      't_seconds_sum{route="x"} 13.5',
+      't_seconds_count{route="x"} 3',
+    ]);
+  });
+
+  test("renders scrape-time gauges", () => {
+    const g = gauge("t_gauge", "Test gauge.", [{ labels: { pool: "codex", account: "0" }, value: 1 }]);
+    expect(render([g])).toContain('t_gauge{pool="codex",account="0"} 1\n');
+  });
+});
+
+describe("request metrics", () => {
+  test("labels only configured or successfully answered models", () => {
+    setModelAliases({ fallbacks: [{ match: "claude-sonnet-*", to: [{ provider: "codex", model: "gpt-5.3-codex" }] }] });
+    try {
+      const observe = (model: string, statusCode: number) =>
+        observeRequest({ provider: "openai", model, route: "AMP_UPSTREAM", statusCode, durationMs: 5 });
+      observe("gpt-5.3-codex", 400);
+      observe("made-up-1", 400);
+      observe("made-up-2", 404);
+      observe("gpt-5.9", 200);
+      observe("gpt-5.9", 500);
+
+      const models = requestsTotal.lines().map((l) => /model="([^"]*)"/.exec(l)?.[1]);
+      expect(new Set(models)).toEqual(new Set(["gpt-5.3-codex", "other", "gpt-5.9"]));
+    } finally {
+      setModelAliases(undefined);
+      requestsTotal.reset();
+    }
+  });
+});
@@ -1,4 +1,17 @@
 import { describe, expect, test } from "bun:test";
+import type { Credentials } from "../src/auth/store.ts";
+import type { ProxyConfig } from "../src/config/config.ts";
+import { affinity } from "../src/routing/affinity.ts";
+import { cooldown } from "../src/routing/cooldown.ts";
+import { ADMIN_PREFIX, handleAdmin } from "../src/server/admin.ts";
+import { checkAccess, presentedToken, withoutToken } from "../src/server/auth.ts";
+import { DASHBOARD_PATH, handleDashboard } from "../src/server/dashboard.ts";
+import { diagnosticHeaders, fellBack, type RouteTrace, withHeaders } from "../src/server/diagnostics.ts";
+import { closeEventStreams, EVENTS_PATH, handleEvents } from "../src/server/events.ts";
+import { overall, providerHealth } from "../src/server/health.ts";
+import { withRequestId } from "../src/utils/context.ts";
+import * as events from "../src/utils/events.ts";
+import { logger } from "../src/utils/logger.ts";
 import * as path from "../src/utils/path.ts";
 
 describe("path.passthrough", () => {
@@ -113,3 +126,220 @@ describe("path.subpath", () => {
     expect(path.subpath("/api/internal")).toBe("/api/internal");
   });
 });
+
+describe("presentedToken", () => {
+  test("prefers the explicit connector header", () => {
+    const headers = new Headers({ "x-connector-token": "ampcc_a", authorization: "Bearer ampcc_b" });
+    expect(presentedToken(headers)).toEqual({ token: "ampcc_a", header: "x-connector-token" });
+  });
+
+  test("reads a bearer Proxy-Authorization", () => {
+    const headers = new Headers({ "proxy-authorization": "Bearer ampcc_x", authorization: "Bearer sgamp_key" });
+    expect(presentedToken(headers)).toEqual({ token: "ampcc_x", header: "proxy-authorization" });
+  });
+
+  test("accepts Authorization only for connector-prefixed tokens", () => {
+    expect(presentedToken(new Headers({ authorization: "Bearer ampcc_x" }))).toEqual({
+      token: "ampcc_x",
+      header: "authorization",
+    });
+    expect(presentedToken(new Headers({ authorization: "Bearer sgamp_key" }))).toBeNull();
+    expect(presentedToken(new Headers())).toBeNull();
+  });
+});
+
+describe("withoutToken", () => {
+  test("strips only the header that carried the token", () => {
+    const req = new Request("http://localhost/api/internal", {
+      headers: { "x-connector-token": "ampcc_a", authorization: "Bearer sgamp_key" },
+    });
+    const forwarded = withoutToken(req, { token: "ampcc_a", header: "x-connector-token" });
+    expect(forwarded.headers.get("x-connector-token")).toBeNull();
+    expect(forwarded.headers.get("authorization")).toBe("Bearer sgamp_key");
+  });
+
+  test("keeps the request body", async () => {
+    const req = new Request("http://localhost/api/provider/anthropic/v1/messages", {
+      method: "POST",
+      headers: { authorization: "Bearer ampcc_a" },
+      body: '{"model":"x"}',
+    });
+    const forwarded = withoutToken(req, { token: "ampcc_a", header: "authorization" });
+    expect(forwarded.headers.get("authorization")).toBeNull();
+    expect(await forwarded.text()).toBe('{"model":"x"}');
+  });
+});
+
+describe("admin API", () => {
+  const admin = (method: string, sub: string, body?: unknown) => {
+    const url = new URL(`http://localhost${ADMIN_PREFIX}${sub}`);
+    const req = new Request(url.href, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+    return handleAdmin(req, url.pathname, url);
+  };
+
+  test("lists and unpins thread affinity", async () => {
+    affinity.set("T-admin", "anthropic", "anthropic", 1);
+    try {
+      const listed = (await (await admin("GET", "/affinity")).json()) as { threads: { threadId: string }[] };
+      expect(listed.threads.map((t) => t.threadId)).toContain("T-admin");
+      expect(await (await admin("DELETE", "/affinity/T-admin")).json()).toEqual({ removed: 1 });
+      expect(affinity.peek("T-admin", "anthropic")).toBeUndefined();
+      expect((await admin("DELETE", "/affinity/T-admin")).status).toBe(404);
+    } finally {
+      affinity.reset();
+    }
+  });
+
+  test("validates input and methods", async () => {
+    expect((await admin("PUT", "/log-level", { level: "loud" })).status).toBe(400);
+    expect((await admin("DELETE", "/accounts/bogus/0/cooldown")).status).toBe(400);
+    expect((await admin("POST", "/affinity")).status).toBe(405);
+    expect((await admin("GET", "/nope")).status).toBe(404);
+  });
+});
+
+describe("routing diagnostics", () => {
+  test("reports the serving account, or the fallback reason once upstream", () => {
+    const trace: RouteTrace = { decision: "LOCAL_CLAUDE", pool: "anthropic", account: 2, attempts: 1, queuedMs: 0 };
+    expect(diagnosticHeaders(trace, "abc123")).toEqual({
+      "x-connector-route": "LOCAL_CLAUDE",
+      "x-connector-attempts": "1",
+      "x-connector-account": "anthropic:2",
+      "x-connector-request-id": "abc123",
+    });
+
+    trace.attempts = 3;
+    fellBack(trace, 429);
+    expect(diagnosticHeaders(trace, undefined)).toEqual({
+      "x-connector-route": "AMP_UPSTREAM",
+      "x-connector-attempts": "3",
+      "x-connector-fallback-reason": "rate_limited",
+    });
+  });
+
+  test("adds headers to responses with immutable headers", () => {
+    const response = withHeaders(Response.redirect("http://localhost/", 302), { "x-connector-route": "AMP_UPSTREAM" });
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe("http://localhost/");
+    expect(response.headers.get("x-connector-route")).toBe("AMP_UPSTREAM");
+  });
+
+  test("tags log lines with the request id across awaits", async () => {
+    const lines: string[] = [];
+    const original = console.log;
+    console.log = (line: string) => lines.push(line);
+    try {
+      await withRequestId("feedbeef", async () => {
+        await Bun.sleep(1);
+        logger.info("inside");
+      });
+      logger.info("outside");
+    } finally {
+      console.log = original;
+    }
+    expect(lines[0]).toEndWith("inside req=feedbeef");
+    expect(lines[1]).toEndWith("outside");
+  });
+});
+
+describe("dashboard", () => {
+  const get = (path: string, method = "GET") => new Request(`http://localhost${path}`, { method });
+
+  test("serves the page without credentials but guards its data", () => {
+    const config = { auth: { required: true } } as ProxyConfig;
+    expect(checkAccess(get(DASHBOARD_PATH), DASHBOARD_PATH, config).ok).toBe(true);
+    expect(checkAccess(get(`${DASHBOARD_PATH}/data`), `${DASHBOARD_PATH}/data`, config).ok).toBe(false);
+  });
+
+  test("returns the page and a JSON snapshot", async () => {
+    const page = handleDashboard(get(DASHBOARD_PATH), DASHBOARD_PATH);
+    expect(page.headers.get("content-type")).toStartWith("text/html");
+    expect(await page.text()).toContain(`${DASHBOARD_PATH}/data`);
+
+    const data = (await handleDashboard(get(`${DASHBOARD_PATH}/data`), `${DASHBOARD_PATH}/data`).json()) as Record<
+      string,
+      unknown
+    >;
+    expect(Object.keys(data).sort()).toEqual(["now", "providers", "requests", "stats"]);
+    expect(handleDashboard(get(DASHBOARD_PATH, "POST"), DASHBOARD_PATH).status).toBe(405);
+  });
+});
+
+describe("event stream", () => {
+  const open = (query: string, headers?: Record<string, string>) => {
+    const url = new URL(`http://localhost${EVENTS_PATH}${query}`);
+    return handleEvents(new Request(url.toString(), { headers }), url);
+  };
+  const decoder = new TextDecoder();
+
+  test("streams matching events as SSE, tagged with the request id", async () => {
+    const response = open("?provider=anthropic&type=route,request");
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const reader = response.body!.getReader();
+    expect(decoder.decode((await reader.read()).value)).toBe(": connected\n\n");
+
+    events.emit("route", { provider: "openai", route: "LOCAL_CODEX" });
+    events.emit("cooldown", { provider: "anthropic", pool: "anthropic", state: "burst" });
+    withRequestId("abc123", () => events.emit("route", { provider: "anthropic", route: "LOCAL_CLAUDE" }));
+
+    const chunk = decoder.decode((await reader.read()).value);
+    expect(chunk).toStartWith("event: route\ndata: ");
+    const event = JSON.parse(chunk.split("data: ")[1]!) as events.ConnectorEvent;
+    expect(event).toMatchObject({ type: "route", provider: "anthropic", route: "LOCAL_CLAUDE", requestId: "abc123" });
+    closeEventStreams();
+    expect((await reader.read()).done).toBe(true);
+  });
+
+  test("speaks NDJSON on request and matches quota pools", async () => {
+    const response = open("?provider=codex", { Accept: "application/x-ndjson" });
+    expect(response.headers.get("content-type")).toBe("application/x-ndjson");
+    const reader = response.body!.getReader();
+
+    events.emit("reroute", { provider: "openai", pool: "codex", account: 1, status: 429 });
+    const line = decoder.decode((await reader.read()).value);
+    expect(line.endsWith("\n")).toBe(true);
+    expect(JSON.parse(line)).toMatchObject({ type: "reroute", pool: "codex", account: 1 });
+    await reader.cancel();
+  });
+
+  test("rejects unknown event types", () => {
+    expect(open("?type=route,bogus").status).toBe(400);
+  });
+});
+
+describe("readiness", () => {
+  const creds = (refreshToken: string) => ({ accessToken: "a", refreshToken, expiresAt: 0 }) as Credentials;
+  const accounts = [0, 1, 2].map((account) => ({ account, credentials: creds("r") }));
+
+  test("classifies accounts and reports the next cooldown end", () => {
+    cooldown.record429("codex", 0, 60);
+    cooldown.record403("codex", 1);
+    const codex = providerHealth("codex", true, [...accounts, { account: 3, credentials: creds("") }]);
+    expect(codex.state).toBe("ok");
+    expect(codex.accounts).toEqual({ usable: 1, cooling: 1, exhausted: 1, missingCredentials: 1 });
+    expect(codex.nextCooldownEnd).toBe(cooldown.inspect("codex", 0)!.until);
+
+    cooldown.record429("codex", 2, 60);
+    expect(providerHealth("codex", true, accounts).state).toBe("cooling");
+    expect(providerHealth("codex", true, []).state).toBe("no_accounts");
+    expect(providerHealth("codex", true, [{ account: 0, credentials: creds("") }]).state).toBe("missing_credentials");
+    expect(providerHealth("codex", false, []).state).toBe("disabled");
+    cooldown.reset();
+  });
+
+  test("is degraded while some enabled providers are usable and down when none are", () => {
+    const ok = providerHealth("anthropic", true, accounts);
+    const missing = providerHealth("google", true, [{ account: 0, credentials: creds("") }]);
+    const disabled = providerHealth("codex", false, []);
+    expect(overall({ anthropic: ok, codex: disabled, google: ok }).status).toBe("ok");
+    expect(overall({ anthropic: ok, codex: disabled, google: missing }).status).toBe("degraded");
+    expect(overall({ anthropic: missing, codex: disabled, google: missing }).status).toBe("down");
+  });
+
+  test("leaves providers without accounts out of readiness", () => {
+    const ok = providerHealth("anthropic", true, accounts);
+    const none = providerHealth("google", true, []);
+    expect(overall({ anthropic: ok, codex: none, google: none }).status).toBe("ok");
+    expect(overall({ anthropic: none, codex: none, google: none }).status).toBe("down");
+  });
+});
@@ -1,4 +1,7 @@
 import { describe, expect, test } from "bun:test";
+import { type MessagesRequest, translateMessage, translateStream } from "../src/providers/translate.ts";
+import { geminiParser, toGemini } from "../src/providers/translate-gemini.ts";
+import { chatCompletionsParser, toChatCompletions } from "../src/providers/translate-openai.ts";
 import * as rewriter from "../src/proxy/rewriter.ts";
 import * as sse from "../src/utils/streaming.ts";
 
@@ -116,3 +119,137 @@ describe("sse.encode", () => {
     expect(encoded).toBe("data: line1\ndata: line2\n\n");
   });
 });
+
+describe("sse.proxy", () => {
+  test("cancels the upstream body when the signal aborts", async () => {
+    let cancelled = false;
+    const upstream = new ReadableStream<Uint8Array>({
+      pull: (controller) => Bun.sleep(10).then(() => controller.enqueue(new TextEncoder().encode("data: x\n\n"))),
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const controller = new AbortController();
+    const proxied = sse.proxy(new Response(upstream), (data) => data, controller.signal);
+    const reader = proxied.body!.getReader();
+    await reader.read();
+
+    controller.abort();
+    await expect(reader.read()).rejects.toThrow();
+    expect(cancelled).toBe(true);
+  });
+});
+
+describe("model fallback translation", () => {
+  const request: MessagesRequest = {
+    model: "claude-sonnet-4-5",
+    system: [{ type: "text", text: "Be brief." }],
+    max_tokens: 1024,
+    stream: true,
+    tools: [
+      {
+        name: "read",
+        input_schema: { $schema: "x", type: "object", additionalProperties: false, properties: {} },
+      },
+      { name: "web_search" },
+    ],
+    messages: [
+      { role: "user", content: "Read a.txt" },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "...", signature: "sig" },
+          { type: "tool_use", id: "toolu_1", name: "read", input: { path: "a.txt" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "toolu_1", content: [{ type: "text", text: "hello" }] },
+          { type: "text", text: "Summarize it" },
+        ],
+      },
+    ],
+  };
+
+  test("Messages → Chat Completions puts tool results before the user's text", () => {
+    const body = JSON.parse(toChatCompletions(request, "gpt-5.2"));
+    expect(body.model).toBe("gpt-5.2");
+    expect(body.messages.map((m: { role: string }) => m.role)).toEqual(["system", "user", "assistant", "tool", "user"]);
+    expect(body.messages[2].tool_calls[0].function).toEqual({ name: "read", arguments: '{"path":"a.txt"}' });
+    expect(body.messages[3]).toEqual({ role: "tool", tool_call_id: "toolu_1", content: "hello" });
+    expect(body.tools.map((t: { function: { name: string } }) => t.function.name)).toEqual(["read"]);
+  });
+
+  test("Messages → Gemini names function responses after their call", () => {
+    const body = JSON.parse(toGemini(request));
+    expect(body.systemInstruction).toEqual({ parts: [{ text: "Be brief." }] });
+    expect(body.contents.map((c: { role: string }) => c.role)).toEqual(["user", "model", "user"]);
+    expect(body.contents[2].parts[0].functionResponse).toEqual({ name: "read", response: { content: "hello" } });
+    expect(body.tools[0].functionDeclarations[0].parameters).toEqual({ type: "object", properties: {} });
+    expect(body.generationConfig).toEqual({ maxOutputTokens: 1024 });
+  });
+
+  test("Chat Completions stream → Anthropic events under the requested model", async () => {
+    const chunks = [
+      { choices: [{ delta: { content: "Let me " } }] },
+      { choices: [{ delta: { content: "check." } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: "read", arguments: "" } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"path":"b"}' } }] } }] },
+      { choices: [{ delta: {}, finish_reason: "tool_calls" }], usage: { prompt_tokens: 9, completion_tokens: 4 } },
+    ];
+    const upstream = `${chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("")}data: [DONE]\n\n`;
+    const response = translateStream(new Response(upstream), chatCompletionsParser(), "claude-sonnet-4-5");
+    const events = sse.parse(await response.text()).map((e) => JSON.parse(e.data));
+
+    expect(events.map((e) => e.type)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect(events[0].message.model).toBe("claude-sonnet-4-5");
+    expect(events[5].content_block).toEqual({ type: "tool_use", id: "call_1", name: "read", input: {} });
+    expect(events[8]).toMatchObject({
+      delta: { stop_reason: "tool_use" },
+      usage: { input_tokens: 9, output_tokens: 4 },
+    });
+  });
+
+  test("Gemini JSON → one Anthropic message", async () => {
+    const upstream = Response.json({
+      candidates: [
+        {
+          content: {
+            parts: [
+              { text: "plan", thought: true },
+              { text: "Done" },
+              { functionCall: { name: "read", args: { path: "c" } } },
+            ],
+          },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2 },
+    });
+    const response = await translateMessage(upstream, geminiParser(), "claude-sonnet-4-5");
+    const message = (await response.json()) as {
+      model: string;
+      content: unknown[];
+      stop_reason: string;
+      usage: unknown;
+    };
+
+    expect(message.model).toBe("claude-sonnet-4-5");
+    expect(message.content[0]).toEqual({ type: "text", text: "Done" });
+    expect(message.content[1]).toMatchObject({ type: "tool_use", name: "read", input: { path: "c" } });
+    expect(message.stop_reason).toBe("tool_use");
+    expect(message.usage).toEqual({ input_tokens: 5, output_tokens: 2 });
+  });
+});
@@ -1,6 +1,30 @@
 import { describe, expect, test } from "bun:test";
+import type { ProxyConfig } from "../src/config/config.ts";
+import { affinity } from "../src/routing/affinity.ts";
+import {
+  budget,
+  GLOBAL_SCOPE,
+  hasLimits,
+  type UpstreamBudgetConfig,
+  windowEnd,
+  windowStart,
+} from "../src/routing/budget.ts";
+import { concurrency, releaseWhenDone } from "../src/routing/concurrency.ts";
+import { cooldown } from "../src/routing/cooldown.ts";
+import { isLocalOnly, refuseOverBudget, refuseUpstream } from "../src/routing/local-only.ts";
+import { DEFAULT_POLICY, setRoutingPolicy } from "../src/routing/policy.ts";
+import { type RerouteContext, waitForLocalQuota } from "../src/routing/retry.ts";
+import { routeRequest } from "../src/routing/router.ts";
+import { matchRule, type RoutingRule, ruleAllows } from "../src/routing/rules.ts";
 import { parseBody } from "../src/server/body.ts";
-import { resolveModel, rewriteBodyModel } from "../src/utils/models.ts";
+import {
+  defaultModel,
+  exclusiveStrategy,
+  fallbacksFor,
+  resolveModel,
+  rewriteBodyModel,
+  setModelAliases,
+} from "../src/utils/models.ts";
 import * as path from "../src/utils/path.ts";
 
 describe("path.modelFromUrl", () => {
@@ -37,6 +61,53 @@ describe("resolveModel", () => {
     expect(resolveModel("claude-opus-4-6")).toBe("claude-opus-4-6");
     expect(resolveModel("gemini-3-pro-preview")).toBe("gemini-3-pro-preview");
   });
+
+  test("applies strategy-scoped built-in aliases only on that strategy", () => {
+    expect(resolveModel("gemini-3-pro-preview", "google", "antigravity")).toBe("gemini-3-pro-high");
+    expect(resolveModel("gemini-3-pro-preview", "google", "gemini")).toBe("gemini-3-pro-preview");
+    expect(exclusiveStrategy("gemini-3-pro-image-preview")).toBe("antigravity");
+    expect(exclusiveStrategy("gemini-3-pro-preview")).toBeUndefined();
+  });
+
+  test("user aliases take precedence and substitute wildcard captures", () => {
+    setModelAliases({
+      aliases: [
+        { match: "claude-*-4-6", to: "claude-$1-4-5", provider: "anthropic" },
+        { match: "gpt-5.3-codex-api-preview", to: "gpt-5.2-codex" },
+        { match: "gemini-3-flash-preview", strategy: "antigravity", exclusive: true },
+      ],
+      defaults: { codex: "gpt-5.3-codex" },
+    });
+    try {
+      expect(resolveModel("claude-opus-4-6", "anthropic")).toBe("claude-opus-4-5");
+      expect(resolveModel("claude-opus-4-6", "codex")).toBe("claude-opus-4-6");
+      expect(resolveModel("gpt-5.3-codex-api-preview")).toBe("gpt-5.2-codex");
+      expect(resolveModel("gemini-3-flash-preview", "google", "antigravity")).toBe("gemini-3-flash-preview");
+      expect(exclusiveStrategy("gemini-3-flash-preview")).toBe("antigravity");
+      expect(defaultModel("codex")).toBe("gpt-5.3-codex");
+    } finally {
+      setModelAliases(undefined);
+    }
+    expect(resolveModel("claude-opus-4-6", "anthropic")).toBe("claude-opus-4-6");
+    expect(defaultModel("codex")).toBe("gpt-5.2");
+  });
+
+  test("fallbacks come from the first matching entry", () => {
+    setModelAliases({
+      fallbacks: [
+        { match: "claude-sonnet-*", to: [{ provider: "codex", model: "gpt-5.2" }] },
+        { match: "claude-*", to: [{ provider: "google", model: "gemini-3-pro-preview" }] },
+      ],
+    });
+    try {
+      expect(fallbacksFor("claude-sonnet-4-5")).toEqual([{ provider: "codex", model: "gpt-5.2" }]);
+      expect(fallbacksFor("claude-opus-4-6")).toEqual([{ provider: "google", model: "gemini-3-pro-preview" }]);
+      expect(fallbacksFor("gpt-5.2")).toEqual([]);
+    } finally {
+      setModelAliases(undefined);
+    }
+    expect(fallbacksFor("claude-sonnet-4-5")).toEqual([]);
+  });
 });
 
 describe("rewriteBodyModel", () => {
@@ -95,3 +166,252 @@ describe("parseBody", () => {
     expect(body.forwardBody).toBe("not json");
   });
 });
+
+describe("routing rules", () => {
+  const rules: RoutingRule[] = [
+    { provider: "anthropic", model: "claude-opus-*", action: "upstream" },
+    { model: "gpt-5*-codex", exclude: { codex: [2] } },
+    { thread: "T-blocked-*", action: "reject", message: "thread is blocked" },
+    { provider: "anthropic", accounts: { anthropic: [0, "me@example.com"] } },
+  ];
+
+  test("first matching rule wins", () => {
+    expect(matchRule(rules, "anthropic", "claude-opus-4-6")?.index).toBe(0);
+    expect(matchRule(rules, "anthropic", "claude-sonnet-4-6")?.index).toBe(3);
+    expect(matchRule(rules, "openai", "gpt-5.3-codex")?.index).toBe(1);
+    expect(matchRule(rules, "openai", "gpt-5.3-codex", "T-blocked-1")?.index).toBe(1);
+    expect(matchRule(rules, "openai", "gpt-5.2", "T-blocked-1")?.index).toBe(2);
+    expect(matchRule(rules, "google", null)).toBeNull();
+    expect(matchRule(undefined, "google", "gemini-3-pro-preview")).toBeNull();
+  });
+
+  test("pins and excludes accounts by index or email", () => {
+    expect(ruleAllows(rules[1], "codex", 2, undefined)).toBe(false);
+    expect(ruleAllows(rules[1], "codex", 1, undefined)).toBe(true);
+    expect(ruleAllows(rules[3], "anthropic", 0, undefined)).toBe(true);
+    expect(ruleAllows(rules[3], "anthropic", 5, "me@example.com")).toBe(true);
+    expect(ruleAllows(rules[3], "anthropic", 5, "other@example.com")).toBe(false);
+    expect(ruleAllows(undefined, "anthropic", 5, undefined)).toBe(true);
+  });
+
+  test("forces upstream or rejects before candidate selection", () => {
+    const config = { providers: { anthropic: true, codex: true, google: true }, rules } as ProxyConfig;
+    const upstream = routeRequest("anthropic", "claude-opus-4-6", config);
+    expect(upstream.decision).toBe("AMP_UPSTREAM");
+    expect(upstream.rule).toBe(0);
+    expect(upstream.upstreamReason).toBe("rule");
+    expect(routeRequest("anthropic", "claude-opus-4-6", { ...config, rules: [] }).upstreamReason).not.toBe("rule");
+    expect(routeRequest("anthropic", "x", { ...config, providers: {} } as ProxyConfig).upstreamReason).toBe(
+      "provider_disabled",
+    );
+
+    const rejected = routeRequest("openai", "gpt-5.2", config, "T-blocked-42");
+    expect(rejected.decision).toBe("REJECTED");
+    expect(rejected.rejection).toBe("Request rejected by routing rule #3: thread is blocked");
+  });
+});
+
+describe("local-only mode", () => {
+  const config = {
+    providers: { anthropic: true, codex: true, google: true },
+    localOnly: { providers: ["openai"], models: ["claude-opus-*"] },
+  } as ProxyConfig;
+
+  test("covers listed providers and models, or everything when enabled", () => {
+    expect(isLocalOnly(config, "openai", "gpt-5.2")).toBe(true);
+    expect(isLocalOnly(config, "anthropic", "claude-opus-4-6")).toBe(true);
+    expect(isLocalOnly(config, "anthropic", "claude-sonnet-4-5")).toBe(false);
+    expect(isLocalOnly(config, "google", null)).toBe(false);
+    expect(isLocalOnly({ ...config, localOnly: { enabled: true } }, "google", null)).toBe(true);
+    expect(isLocalOnly({ ...config, localOnly: undefined }, "openai", "gpt-5.2")).toBe(false);
+  });
+
+  test("refuses in the client's error dialect", async () => {
+    const anthropic = refuseUpstream(config, "anthropic", "claude-opus-4-6", "no_accounts");
+    expect(anthropic.status).toBe(503);
+    expect(await anthropic.json()).toMatchObject({ type: "error", error: { type: "api_error" } });
+
+    const google = refuseUpstream(config, "google", "gemini-3-pro-preview", "no_accounts");
+    expect(await google.json()).toMatchObject({ error: { code: 503, status: "UNAVAILABLE" } });
+
+    const openai = await refuseUpstream(config, "openai", "gpt-5.2", "no_accounts").json();
+    expect((openai as { error: { message: string } }).error.message).toContain("No local codex account");
+  });
+});
+
+describe("upstream budget", () => {
+  const limits: UpstreamBudgetConfig = {
+    hourly: { requests: 2 },
+    daily: { tokens: 100 },
+    models: [{ match: "claude-opus-*", daily: { requests: 1 } }],
+  };
+
+  test("refuses once a global or model limit is reached", () => {
+    budget.reset();
+    expect(budget.spent(limits, "claude-opus-4-6")).toBeNull();
+    budget.reserve(limits, "claude-opus-4-6", 10);
+    expect(budget.spent(limits, "claude-opus-4-6")).toMatchObject({ scope: "claude-opus-*", window: "daily" });
+    expect(budget.spent(limits, "claude-sonnet-4-5")).toBeNull();
+
+    budget.reserve(limits, "claude-sonnet-4-5", 10);
+    const spent = budget.spent(limits, "claude-sonnet-4-5");
+    expect(spent).toMatchObject({ scope: GLOBAL_SCOPE, window: "hourly", kind: "requests", limit: 2 });
+    expect(spent!.resetsAt).toBe(windowEnd("hourly", windowStart("hourly")));
+    expect(budget.snapshot(limits).map((b) => [b.scope, b.window])).toEqual([
+      [GLOBAL_SCOPE, "hourly"],
+      [GLOBAL_SCOPE, "daily"],
+      ["claude-opus-*", "daily"],
+    ]);
+    budget.reset();
+  });
+
+  test("in-flight reservations count until released", () => {
+    budget.reset();
+    const first = budget.reserve(limits, "gpt-5.2", 10);
+    budget.reserve(limits, "gpt-5.2", 10);
+    expect(budget.spent(limits, "gpt-5.2")).toMatchObject({ window: "hourly", kind: "requests" });
+    first();
+    first();
+    expect(budget.spent(limits, "gpt-5.2")).toBeNull();
+    expect(budget.snapshot(limits)[1]!.tokens).toEqual({ used: 10, limit: 100 });
+    budget.reset();
+  });
+
+  test("only current windows survive dump/load", () => {
+    budget.reset();
+    budget.reserve(limits, "gpt-5.2", 100);
+    const saved = budget.dump();
+    saved["*|hourly"] = { ...saved["*|hourly"]!, start: windowStart("hourly") - 3600_000 };
+    budget.load(saved);
+    expect(budget.spent(limits, "gpt-5.2")).toMatchObject({ window: "daily", kind: "tokens" });
+    expect(budget.snapshot(limits)[0]!.requests).toEqual({ used: 0, limit: 2 });
+    budget.reset();
+  });
+
+  test("unset limits do not count as a budget", () => {
+    expect(hasLimits({ hourly: {}, daily: {} })).toBe(false);
+    expect(hasLimits(undefined)).toBe(false);
+    expect(hasLimits({ models: [{ match: "*", hourly: { tokens: 5 } }] })).toBe(true);
+  });
+
+  test("a spent budget answers 429 with Retry-After at its reset", () => {
+    const config = { providers: { anthropic: true, codex: true, google: true } } as ProxyConfig;
+    const resetsAt = Date.now() + 90_000;
+    const response = refuseOverBudget(config, "anthropic", {
+      scope: GLOBAL_SCOPE,
+      window: "hourly",
+      kind: "requests",
+      limit: 2,
+      resetsAt,
+    });
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get("retry-after"))).toBeGreaterThanOrEqual(89);
+  });
+
+  test("waiting gives up at once with no local account to wait for", async () => {
+    budget.reset();
+    cooldown.reset();
+    const upstreamBudget: UpstreamBudgetConfig = { hourly: { requests: 1 }, onExhausted: "wait" };
+    const config = { providers: { anthropic: false, codex: true, google: true }, upstreamBudget } as ProxyConfig;
+    const ctx: RerouteContext = {
+      providerName: "anthropic",
+      ampModel: "claude-sonnet-4-6",
+      config,
+      sub: "/v1/messages",
+      body: parseBody("{}", "/v1/messages"),
+      headers: new Headers(),
+      rewrite: undefined,
+      priority: "interactive",
+    };
+    budget.reserve(upstreamBudget, "claude-sonnet-4-6", 1);
+    expect(await waitForLocalQuota(ctx)).toBeNull();
+    budget.reset();
+  });
+});
+
+describe("runtime state round-trip", () => {
+  test("cooldowns and affinity survive dump/load, expired entries do not", () => {
+    cooldown.record403("codex", 1);
+    affinity.set("T-1", "openai", "codex", 0);
+    const savedCooldown = cooldown.dump();
+    const savedAffinity = affinity.dump();
+    cooldown.reset();
+    affinity.reset();
+
+    cooldown.load({ ...savedCooldown, "codex:2": { until: Date.now() - 1, exhausted: true, consecutive429: 0 } });
+    affinity.load(savedAffinity);
+    try {
+      expect(cooldown.isExhausted("codex", 1)).toBe(true);
+      expect(Object.keys(cooldown.dump())).toEqual(["codex:1"]);
+      expect(affinity.peek("T-1", "openai")?.account).toBe(0);
+      expect(affinity.activeCount("codex", 0)).toBe(1);
+    } finally {
+      cooldown.reset();
+      affinity.reset();
+    }
+  });
+});
+
+describe("concurrency limits", () => {
+  const reset = () => {
+    concurrency.reset();
+    setRoutingPolicy(DEFAULT_POLICY);
+  };
+
+  test("queues over the account limit, interactive requests first", async () => {
+    setRoutingPolicy({ ...DEFAULT_POLICY, maxConcurrentPerAccount: 1 });
+    try {
+      const held = await concurrency.acquire("anthropic", 0, "background");
+      const order: string[] = [];
+      const background = concurrency.acquire("anthropic", 0, "background").then((slot) => {
+        order.push("background");
+        return slot;
+      });
+      const interactive = concurrency.acquire("anthropic", 0, "interactive").then((slot) => {
+        order.push("interactive");
+        return slot;
+      });
+      expect(concurrency.snapshot().queued["anthropic:0"]).toEqual({ interactive: 1, background: 1 });
+      expect(await concurrency.acquire("anthropic", 1, "background")).not.toBeNull();
+
+      held!.release();
+      held!.release(); // idempotent — must not free a second slot
+      (await interactive)!.release();
+      expect((await background)!.waitedMs).toBeGreaterThanOrEqual(0);
+      expect(order).toEqual(["interactive", "background"]);
+    } finally {
+      reset();
+    }
+  });
+
+  test("gives up after queueTimeoutMs and honours the pool limit", async () => {
+    setRoutingPolicy({ ...DEFAULT_POLICY, maxConcurrentPerPool: 1, queueTimeoutMs: 20 });
+    try {
+      const held = await concurrency.acquire("codex", 0, "interactive");
+      expect(concurrency.hasRoom("codex", 1)).toBe(false);
+      expect(await concurrency.acquire("codex", 1, "interactive")).toBeNull();
+      expect(concurrency.snapshot().queued).toEqual({});
+      held!.release();
+      expect(await concurrency.acquire("codex", 1, "interactive")).not.toBeNull();
+    } finally {
+      reset();
+    }
+  });
+
+  test("holds the slot until the response body is read", async () => {
+    setRoutingPolicy({ ...DEFAULT_POLICY, maxConcurrentPerAccount: 1, queueTimeoutMs: 0 });
+    try {
+      const slot = await concurrency.acquire("google", 0, "interactive");
+      const response = releaseWhenDone(new Response("streamed"), slot!);
+      expect(concurrency.snapshot().active).toEqual({ "google:0": 1 });
+      expect(await response.text()).toBe("streamed");
+      expect(concurrency.snapshot().active).toEqual({});
+
+      const failed = await concurrency.acquire("google", 0, "interactive");
+      releaseWhenDone(new Response("rate limited", { status: 429 }), failed!);
+      expect(concurrency.snapshot().active).toEqual({});
+    } finally {
+      reset();
+    }
+  });
+});
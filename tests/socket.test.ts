@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Server } from "bun";
+import { portIsFree, runningPid } from "../src/cli/daemon.ts";
+import type { ProxyConfig } from "../src/config/config.ts";
+import { validate } from "../src/config/schema.ts";
+import { bindPrivate, clearStaleSocket, clientUrl, startShim } from "../src/server/socket.ts";
+
+describe("socket config", () => {
+  test("requires a path", () => {
+    expect(validate({ socket: { path: "/tmp/a.sock", shimPort: 8766 } })).toEqual([]);
+    expect(validate({ socket: { tcp: true } })[0]!.path).toBe("socket.path");
+  });
+
+  test("client URL prefers TCP, then the shim", () => {
+    const base = { port: 8765, tls: { enabled: false } } as ProxyConfig;
+    expect(clientUrl(base)).toBe("http://localhost:8765");
+    // The loader fills in empty objects for unset sections.
+    expect(clientUrl({ ...base, socket: {} as ProxyConfig["socket"] })).toBe("http://localhost:8765");
+    expect(clientUrl({ ...base, socket: { path: "/tmp/a.sock", tcp: true } })).toBe("http://localhost:8765");
+    expect(clientUrl({ ...base, socket: { path: "/tmp/a.sock", shimPort: 8766 } })).toBe("http://localhost:8766");
+    expect(clientUrl({ ...base, socket: { path: "/tmp/a.sock" } })).toBeUndefined();
+  });
+});
+
+describe("socket listener", () => {
+  const path = join(tmpdir(), `ampcc-test-${process.pid}.sock`);
+  let server: Server<undefined>;
+
+  beforeAll(() => {
+    server = bindPrivate(() =>
+      Bun.serve({ unix: path, fetch: async (req) => new Response(`echo ${await req.text()}`) }),
+    );
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    rmSync(path, { force: true });
+  });
+
+  test("creates the socket owner-only and restores the umask", () => {
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(process.umask()).not.toBe(0o177);
+  });
+
+  test("shim forwards loopback TCP to the socket", async () => {
+    const shim = startShim(path, 0);
+    try {
+      const res = await fetch(`http://127.0.0.1:${shim.port}/x`, { method: "POST", body: "hi" });
+      expect(await res.text()).toBe("echo hi");
+    } finally {
+      shim.stop(true);
+    }
+  });
+
+  test("refuses to clear a socket that is in use or a regular file", async () => {
+    await expect(clearStaleSocket(path)).rejects.toThrow("already listening");
+    const file = `${path}.txt`;
+    writeFileSync(file, "");
+    try {
+      await expect(clearStaleSocket(file)).rejects.toThrow("not a socket");
+    } finally {
+      rmSync(file);
+    }
+    expect(existsSync(path)).toBe(true);
+  });
+});
+
+describe("daemon preflight", () => {
+  const file = join(tmpdir(), `ampcc-test-${process.pid}.pid`);
+
+  afterAll(() => rmSync(file, { force: true }));
+
+  test("keeps a live pid and removes a stale one", () => {
+    writeFileSync(file, `${process.pid}\n`);
+    expect(runningPid(file)).toBe(process.pid);
+
+    const exited = Bun.spawnSync(["true"]);
+    writeFileSync(file, `${exited.pid}\n`);
+    expect(runningPid(file)).toBeNull();
+    expect(existsSync(file)).toBe(false);
+  });
+
+  test("notices a port already in use", () => {
+    const listener = Bun.listen({ hostname: "127.0.0.1", port: 0, socket: { data() {} } });
+    expect(portIsFree("127.0.0.1", listener.port)).toBe(false);
+    listener.stop(true);
+    expect(portIsFree("127.0.0.1", listener.port)).toBe(true);
+  });
+});